@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+
+import { isNextControlFlowError } from "@/dx/control-flow-error/control-flow-error";
+
+function createDigestError(digest: string): Error {
+    return Object.assign(new Error("Next.js control flow"), { digest });
+}
+
+describe("isNextControlFlowError", () => {
+    it("should detect the control flow errors of Next.js by digest", () => {
+        expect(
+            isNextControlFlowError(
+                createDigestError("NEXT_REDIRECT;replace;/login;307;"),
+            ),
+        ).toBe(true);
+        expect(
+            isNextControlFlowError(
+                createDigestError("NEXT_HTTP_ERROR_FALLBACK;404"),
+            ),
+        ).toBe(true);
+        expect(
+            isNextControlFlowError(
+                createDigestError("NEXT_HTTP_ERROR_FALLBACK;403"),
+            ),
+        ).toBe(true);
+        expect(
+            isNextControlFlowError(createDigestError("DYNAMIC_SERVER_USAGE")),
+        ).toBe(true);
+    });
+
+    it("should detect redirects by message", () => {
+        expect(isNextControlFlowError(new Error("NEXT_REDIRECT"))).toBe(true);
+    });
+
+    it("should not detect other errors", () => {
+        expect(isNextControlFlowError(new Error("Unexpected error"))).toBe(
+            false,
+        );
+        expect(isNextControlFlowError(createDigestError("1234567"))).toBe(
+            false,
+        );
+        expect(isNextControlFlowError("NEXT_REDIRECT")).toBe(false);
+        expect(isNextControlFlowError(null)).toBe(false);
+    });
+});
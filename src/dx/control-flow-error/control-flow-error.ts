@@ -0,0 +1,51 @@
+/**
+ * Checks if an error is used for control flow by a framework (e.g. a redirect) and must be rethrown instead of being returned as a failure.
+ */
+export type ControlFlowErrorDetector = (error: unknown) => boolean;
+
+/**
+ * The digest prefixes of the errors Next.js uses for control flow.
+ *
+ * - `NEXT_REDIRECT`: `redirect()` and `permanentRedirect()`
+ * - `NEXT_HTTP_ERROR_FALLBACK`: `notFound()`, `forbidden()` and `unauthorized()`
+ * - `NEXT_NOT_FOUND`: `notFound()` of older Next.js versions
+ * - `DYNAMIC_SERVER_USAGE`: Dynamic APIs like `cookies()` during static rendering
+ * - `BAILOUT_TO_CLIENT_SIDE_RENDERING`: `useSearchParams()` without a suspense boundary during static rendering
+ */
+export const NEXT_CONTROL_FLOW_DIGESTS = [
+    "NEXT_REDIRECT",
+    "NEXT_HTTP_ERROR_FALLBACK",
+    "NEXT_NOT_FOUND",
+    "DYNAMIC_SERVER_USAGE",
+    "BAILOUT_TO_CLIENT_SIDE_RENDERING",
+] as const;
+
+/**
+ * Checks if an error is one of the control flow errors of Next.js, based on its `digest` (or its message for older versions).
+ *
+ * @param error - The caught error.
+ * @returns `true` if the error must be rethrown to be handled by Next.js.
+ * @example
+ * try {
+ *     redirect("/login");
+ * } catch (error) {
+ *     isNextControlFlowError(error); // true
+ * }
+ */
+export function isNextControlFlowError(error: unknown): boolean {
+    if (typeof error !== "object" || error === null) {
+        return false;
+    }
+
+    const { digest, message } = error as {
+        digest?: unknown;
+        message?: unknown;
+    };
+    return [digest, message].some(
+        (value) =>
+            typeof value === "string" &&
+            NEXT_CONTROL_FLOW_DIGESTS.some((prefix) =>
+                value.startsWith(prefix),
+            ),
+    );
+}
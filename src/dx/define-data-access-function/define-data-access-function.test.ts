@@ -1,6 +1,7 @@
 import { describe, expect, it } from "vitest";
 
 import defineDataAccessFunction from "@/dx/define-data-access-function/define-data-access-function";
+import { ForbiddenError, isOwner } from "@/dx/policy/policy";
 
 type User = {
     id: string;
@@ -102,4 +103,97 @@ describe("defineDataAccessFunction", () => {
             expect(error).toBeNull();
         });
     });
+
+    describe("with authorization", () => {
+        const canRead = isOwner((ownerId: string) => ownerId);
+
+        it("should call the function if the policy allows it", async () => {
+            const getData = defineDataAccessFunction({
+                auth,
+                authorize: canRead,
+                func: async (user, ownerId: string) => `Data of ${ownerId}`,
+            });
+
+            const { result, error } = await getData(mockUser.id);
+
+            expect(result).toBe(`Data of ${mockUser.id}`);
+            expect(error).toBeNull();
+        });
+
+        it("should return a ForbiddenError if the policy denies it", async () => {
+            const getData = defineDataAccessFunction({
+                auth,
+                authorize: canRead,
+                func: async (user, ownerId: string) => `Data of ${ownerId}`,
+            });
+
+            const { result, error } = await getData("someone-else");
+
+            expect(result).toBeNull();
+            expect(error).toBeInstanceOf(ForbiddenError);
+        });
+
+        it("should return an error if the policy throws", async () => {
+            const getData = defineDataAccessFunction({
+                auth,
+                authorize: isOwner(async (projectId: string) => {
+                    throw new Error(`Failed to load project ${projectId}`);
+                }),
+                func: async (user, projectId: string) => `Data of ${projectId}`,
+            });
+
+            const { result, error } = await getData("project-id");
+
+            expect(result).toBeNull();
+            expect(error).toEqual(
+                new Error("Failed to load project project-id"),
+            );
+        });
+
+        it("should rethrow control flow errors of the policy", async () => {
+            const getData = defineDataAccessFunction({
+                auth,
+                authorize: isOwner(async (projectId: string) => {
+                    throw Object.assign(new Error("NEXT_REDIRECT"), {
+                        digest: `NEXT_REDIRECT;replace;/projects/${projectId};307;`,
+                    });
+                }),
+                func: async (user, projectId: string) => `Data of ${projectId}`,
+            });
+
+            await expect(getData("project-id")).rejects.toMatchObject({
+                digest: "NEXT_REDIRECT;replace;/projects/project-id;307;",
+            });
+        });
+    });
+
+    describe("with control flow errors", () => {
+        it("should rethrow Next.js control flow errors", async () => {
+            const redirect = Object.assign(new Error("NEXT_REDIRECT"), {
+                digest: "NEXT_REDIRECT;replace;/login;307;",
+            });
+            const getData = defineDataAccessFunction({
+                func: async () => {
+                    throw redirect;
+                },
+            });
+
+            await expect(getData()).rejects.toBe(redirect);
+        });
+
+        it("should use a custom control flow error detector", async () => {
+            const getData = defineDataAccessFunction({
+                auth,
+                func: async () => {
+                    throw new Error("NEXT_REDIRECT");
+                },
+                isControlFlowError: () => false,
+            });
+
+            const { result, error } = await getData();
+
+            expect(result).toBeNull();
+            expect(error).toEqual(new Error("NEXT_REDIRECT"));
+        });
+    });
 });
@@ -1,3 +1,8 @@
+import {
+    ControlFlowErrorDetector,
+    isNextControlFlowError,
+} from "@/dx/control-flow-error/control-flow-error";
+import { ForbiddenError } from "@/dx/policy/policy";
 import { Result, tryCatch } from "@/dx/try-catch/try-catch";
 
 type DALResult<Output> =
@@ -6,6 +11,14 @@ type DALResult<Output> =
 
 type AuthFunction<AuthUser> = () => Promise<AuthUser>;
 
+/**
+ * Decides if the user is allowed to call the function with the given params. Policies like `hasRole` or `isOwner` can be used for functions with a single param.
+ */
+type DALAuthorizeFunction<Params extends unknown[], AuthUser> = (
+    user: AuthUser,
+    ...params: Params
+) => boolean | Promise<boolean>;
+
 type DALDefinitionAuth<Params extends unknown[], Output, AuthUser> = (
     user: AuthUser,
     ...params: Params
@@ -21,7 +34,9 @@ export default function defineDataAccessFunction<
     AuthUser,
 >(config: {
     auth: AuthFunction<AuthUser>;
+    authorize?: DALAuthorizeFunction<Params, AuthUser>;
     func: DALDefinitionAuth<Params, Output, AuthUser>;
+    isControlFlowError?: ControlFlowErrorDetector;
 }): (...params: Params) => Promise<DALResult<Output>>;
 
 export default function defineDataAccessFunction<
@@ -29,6 +44,7 @@ export default function defineDataAccessFunction<
     Output,
 >(config: {
     func: DALDefinitionNoAuth<Params, Output>;
+    isControlFlowError?: ControlFlowErrorDetector;
 }): (...params: Params) => Promise<DALResult<Output>>;
 
 export default function defineDataAccessFunction<
@@ -37,24 +53,32 @@ export default function defineDataAccessFunction<
     AuthUser,
 >({
     auth,
+    authorize,
     func,
+    isControlFlowError = isNextControlFlowError,
 }: {
     auth?: AuthFunction<AuthUser>;
+    authorize?: DALAuthorizeFunction<Params, AuthUser>;
     func:
         | DALDefinitionAuth<Params, Output, AuthUser>
         | DALDefinitionNoAuth<Params, Output>;
+    isControlFlowError?: ControlFlowErrorDetector;
 }): (...params: Params) => Promise<DALResult<Output>> {
     if (auth) {
         return async (...params: Params): Promise<DALResult<Output>> => {
             const user = await auth();
 
-            const result = await tryCatch(
-                (func as DALDefinitionAuth<Params, Output, AuthUser>)(
+            // Policies run inside tryCatch to fail the same way as the function itself, e.g. if they query the database.
+            const result = await tryCatch(async () => {
+                if (authorize && !(await authorize(user, ...params))) {
+                    throw new ForbiddenError();
+                }
+                return (func as DALDefinitionAuth<Params, Output, AuthUser>)(
                     user,
                     ...params,
-                ),
-            );
-            return handleFunctionResult(result);
+                );
+            });
+            return handleFunctionResult(result, isControlFlowError);
         };
     }
 
@@ -62,12 +86,19 @@ export default function defineDataAccessFunction<
         const result = await tryCatch(
             (func as DALDefinitionNoAuth<Params, Output>)(...params),
         );
-        return handleFunctionResult(result);
+        return handleFunctionResult(result, isControlFlowError);
     };
 }
 
-function handleFunctionResult<Output>(res: Result<Output>): DALResult<Output> {
+function handleFunctionResult<Output>(
+    res: Result<Output>,
+    isControlFlowError: ControlFlowErrorDetector,
+): DALResult<Output> {
     if (res.error) {
+        // Rethrow control flow errors like redirects to be handled by the framework.
+        if (isControlFlowError(res.error)) {
+            throw res.error;
+        }
         return { result: null, error: res.error };
     }
     return { result: res.result, error: null };
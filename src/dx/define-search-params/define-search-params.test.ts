@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+
+import defineSearchParams, {
+    searchParam,
+} from "@/dx/define-search-params/define-search-params";
+import { safeStringLiteral } from "@/dx/safe-string-literal/safe-string-literal";
+
+describe("defineSearchParams", () => {
+    const Status = safeStringLiteral("open", "in_progress", "closed");
+    const Sort = safeStringLiteral("created", "updated");
+
+    const ListParams = defineSearchParams({
+        status: searchParam.array(Status),
+        sort: searchParam.single(Sort).default("created"),
+        page: searchParam.number({ int: true, min: 1 }).default(1),
+        query: searchParam.string(),
+    });
+
+    it("should parse URLSearchParams", () => {
+        const values = ListParams.parse(
+            new URLSearchParams("status=closed,open&sort=updated&page=2"),
+        );
+
+        expect(values).toEqual({
+            status: ["open", "closed"],
+            sort: "updated",
+            page: 2,
+            query: undefined,
+        });
+    });
+
+    it("should parse a Next.js searchParams object", () => {
+        const values = ListParams.parse({
+            status: ["open", "in_progress"],
+            query: "printer",
+        });
+
+        expect(values).toEqual({
+            status: ["open", "in_progress"],
+            sort: "created",
+            page: 1,
+            query: "printer",
+        });
+    });
+
+    it("should support repeated keys", () => {
+        const values = ListParams.parse(
+            new URLSearchParams("status=open&status=closed&status=open"),
+        );
+        expect(values.status).toEqual(["open", "closed"]);
+    });
+
+    it("should fall back to defaults on invalid input", () => {
+        const values = ListParams.parse(
+            new URLSearchParams("status=open,bogus&sort=name&page=0&query="),
+        );
+
+        expect(values).toEqual({
+            status: [],
+            sort: "created",
+            page: 1,
+            query: undefined,
+        });
+        expect(ListParams.parse({ page: "1.5" }).page).toBe(1);
+        expect(ListParams.parse({ page: "" }).page).toBe(1);
+    });
+
+    it("should infer the types of the values", () => {
+        const values = ListParams.parse({});
+
+        const status: ("open" | "in_progress" | "closed")[] = values.status;
+        const sort: "created" | "updated" = values.sort;
+        const page: number = values.page;
+        const query: string | undefined = values.query;
+
+        expect([status, sort, page, query]).toEqual([
+            [],
+            "created",
+            1,
+            undefined,
+        ]);
+    });
+
+    it("should serialize to a canonical, minimal query string", () => {
+        expect(
+            ListParams.serialize({
+                status: ["closed", "open"],
+                sort: "created",
+                page: 2,
+                query: "red shoes",
+            }),
+        ).toBe("status=open,closed&page=2&query=red%20shoes");
+        expect(ListParams.serialize({ sort: "created", page: 1 })).toBe("");
+    });
+
+    it("should round-trip values", () => {
+        const values = ListParams.parse(
+            new URLSearchParams("page=3&status=in_progress&sort=updated"),
+        );
+        expect(
+            ListParams.parse(new URLSearchParams(ListParams.serialize(values))),
+        ).toEqual(values);
+    });
+});
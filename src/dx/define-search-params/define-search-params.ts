@@ -0,0 +1,264 @@
+import { z } from "zod";
+
+import { safeStringLiteral } from "@/dx/safe-string-literal/safe-string-literal";
+import {
+    ArrayValidatorOptions,
+    createArrayValidator,
+    createSingleValidator,
+} from "@/dx/string-literal-validator/string-literal-validator";
+
+/**
+ * A raw search param value as provided by `URLSearchParams` or the Next.js `searchParams` prop.
+ */
+type RawValue = string | string[] | undefined;
+
+/**
+ * The Next.js `searchParams` object or any other record of raw search param values.
+ */
+export type SearchParamsRecord = { [key: string]: RawValue };
+
+/**
+ * Type definition for a single search param.
+ *
+ * @template T - The parsed type of the search param.
+ */
+export type SearchParam<T> = {
+    /**
+     * The value used if the search param is missing or invalid.
+     */
+    defaultValue: T;
+    /**
+     * Parses the raw value. Falls back to the default value if the raw value is missing or invalid.
+     */
+    parse: (raw: RawValue) => T;
+    /**
+     * Serializes the value. Returns `undefined` if the search param should be omitted.
+     */
+    serialize(value: T): string | undefined;
+    /**
+     * Creates a copy of the search param with a default value.
+     */
+    default(value: NonNullable<T>): SearchParam<NonNullable<T>>;
+};
+
+/**
+ * The parsed values of a search params definition.
+ */
+export type SearchParamsValues<S extends Record<string, SearchParam<unknown>>> =
+    {
+        [K in keyof S]: S[K] extends SearchParam<infer T> ? T : never;
+    };
+
+/**
+ * Type definition for a search params definition.
+ */
+export type SearchParams<S extends Record<string, SearchParam<unknown>>> = {
+    /**
+     * The search params of the definition.
+     */
+    shape: S;
+    /**
+     * Parses `URLSearchParams` or the Next.js `searchParams` object into typed values.
+     * Missing or invalid search params fall back to their default value.
+     */
+    parse: (
+        input: URLSearchParams | SearchParamsRecord,
+    ) => SearchParamsValues<S>;
+    /**
+     * Serializes values into a canonical query string without leading `?`.
+     * Search params are ordered as defined and omitted if they equal their default value.
+     */
+    serialize: (values: Partial<SearchParamsValues<S>>) => string;
+};
+
+function createSearchParam<T>(
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    serialize: (value: T) => string | undefined,
+    defaultValue: T,
+    multiple = false,
+): SearchParam<T> {
+    return {
+        defaultValue,
+        parse: (raw) => {
+            const value = multiple || !Array.isArray(raw) ? raw : raw[0];
+            if (value === undefined) {
+                return defaultValue;
+            }
+            const result = schema.safeParse(value);
+            return result.success ? result.data : defaultValue;
+        },
+        serialize: (value) =>
+            value === undefined || value === null
+                ? undefined
+                : serialize(value),
+        default: (value) =>
+            createSearchParam<NonNullable<T>>(
+                schema as z.ZodType<NonNullable<T>, z.ZodTypeDef, unknown>,
+                serialize,
+                value,
+                multiple,
+            ),
+    };
+}
+
+/**
+ * Builders for the search params of `defineSearchParams`.
+ */
+export const searchParam = {
+    /**
+     * A single value of a string literal type, e.g. `?sort=created`.
+     */
+    single<T extends readonly string[]>(
+        literal: safeStringLiteral<T>,
+    ): SearchParam<T[number] | undefined> {
+        const validator = createSingleValidator(
+            literal.values as unknown as readonly [T[number], ...T[number][]],
+            literal.toLiteral,
+        );
+        return createSearchParam<T[number] | undefined>(
+            validator,
+            (value) => value,
+            undefined,
+        );
+    },
+    /**
+     * A list of values of a string literal type, either comma-separated (`?status=open,closed`) or as repeated keys (`?status=open&status=closed`).
+     * Duplicates are removed and the values are sorted by declared order by default to get a canonical query string.
+     */
+    array<T extends readonly string[]>(
+        literal: safeStringLiteral<T>,
+        options: ArrayValidatorOptions = {},
+    ): SearchParam<T[number][]> {
+        const { separator = "," } = options;
+        const validator = createArrayValidator(
+            literal.values as unknown as readonly [T[number], ...T[number][]],
+            literal.toLiterals,
+            { coerce: "list", unique: true, sort: true, ...options },
+        );
+        return createSearchParam<T[number][]>(
+            validator,
+            (values) => {
+                const result = validator.safeParse(values);
+                const canonical = result.success ? result.data : values;
+                return canonical.length > 0
+                    ? canonical.join(separator)
+                    : undefined;
+            },
+            [],
+            true,
+        );
+    },
+    /**
+     * A number, e.g. `?page=2`.
+     */
+    number(
+        options: { int?: boolean; min?: number; max?: number } = {},
+    ): SearchParam<number | undefined> {
+        let schema = z.number().finite();
+        if (options.int) {
+            schema = schema.int();
+        }
+        if (options.min !== undefined) {
+            schema = schema.min(options.min);
+        }
+        if (options.max !== undefined) {
+            schema = schema.max(options.max);
+        }
+        return createSearchParam<number | undefined>(
+            z.preprocess(
+                (value) =>
+                    typeof value === "string" && value.trim() !== ""
+                        ? Number(value)
+                        : value,
+                schema,
+            ),
+            (value) => String(value),
+            undefined,
+        );
+    },
+    /**
+     * A free text, e.g. `?query=shoes`. Empty strings are treated as missing.
+     */
+    string(): SearchParam<string | undefined> {
+        return createSearchParam<string | undefined>(
+            z.string().min(1),
+            (value) => (value !== "" ? value : undefined),
+            undefined,
+        );
+    },
+};
+
+/**
+ * Defines typed search params for a page, e.g. for filters, sorting and pagination of a list.
+ *
+ * @param shape - The search params created with the `searchParam` builders.
+ * @returns A definition to parse search params and to serialize them back into a canonical, minimal query string.
+ * @example
+ * const Status = safeStringLiteral("open", "in_progress", "closed");
+ * const Sort = safeStringLiteral("created", "updated");
+ *
+ * const ListParams = defineSearchParams({
+ *     status: searchParam.array(Status),
+ *     sort: searchParam.single(Sort).default("created"),
+ *     page: searchParam.number({ int: true, min: 1 }).default(1),
+ * });
+ *
+ * ListParams.parse(new URLSearchParams("status=closed,open&page=x")); // { status: ["open", "closed"], sort: "created", page: 1 }
+ * ListParams.serialize({ status: ["open"], sort: "created", page: 2 }); // "status=open&page=2"
+ */
+export default function defineSearchParams<
+    S extends Record<string, SearchParam<unknown>>,
+>(shape: S): SearchParams<S> {
+    const keys = Object.keys(shape) as (keyof S & string)[];
+
+    function parse(
+        input: URLSearchParams | SearchParamsRecord,
+    ): SearchParamsValues<S> {
+        const values: Partial<SearchParamsValues<S>> = {};
+        for (const key of keys) {
+            values[key] = shape[key].parse(
+                getRawValue(input, key),
+            ) as SearchParamsValues<S>[typeof key];
+        }
+        return values as SearchParamsValues<S>;
+    }
+
+    function serialize(values: Partial<SearchParamsValues<S>>): string {
+        const parts: string[] = [];
+        for (const key of keys) {
+            const param = shape[key];
+            const value = param.serialize(values[key]);
+            if (
+                value === undefined ||
+                value === param.serialize(param.defaultValue)
+            ) {
+                continue;
+            }
+            parts.push(`${encodeURIComponent(key)}=${encodeValue(value)}`);
+        }
+        return parts.join("&");
+    }
+
+    return { shape, parse, serialize };
+}
+
+function getRawValue(
+    input: URLSearchParams | SearchParamsRecord,
+    key: string,
+): RawValue {
+    if (!(input instanceof URLSearchParams)) {
+        return input[key];
+    }
+    const values = input.getAll(key);
+    if (values.length === 0) {
+        return undefined;
+    }
+    return values.length === 1 ? values[0] : values;
+}
+
+/**
+ * Encodes a value for the query string, but keeps commas readable for lists.
+ */
+function encodeValue(value: string): string {
+    return encodeURIComponent(value).replace(/%2C/g, ",");
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+
+import defineStateMachine, {
+    InvalidTransitionError,
+} from "@/dx/define-state-machine/define-state-machine";
+import { safeStringLiteral } from "@/dx/safe-string-literal/safe-string-literal";
+
+describe("defineStateMachine", () => {
+    const Status = safeStringLiteral(
+        "draft",
+        "submitted",
+        "approved",
+        "rejected",
+    );
+    type Status = typeof Status.type;
+
+    const StatusMachine = defineStateMachine(Status, {
+        draft: ["submitted"],
+        submitted: ["approved", "rejected"],
+        approved: [],
+        rejected: ["draft"],
+    });
+
+    it("should check if a transition is allowed", () => {
+        expect(StatusMachine.canTransition("draft", "submitted")).toBe(true);
+        expect(StatusMachine.canTransition("draft", "approved")).toBe(false);
+        expect(StatusMachine.canTransition("approved", "draft")).toBe(false);
+    });
+
+    it("should narrow the target state", () => {
+        const to: Status = "rejected";
+        if (StatusMachine.canTransition("submitted", to)) {
+            const narrowed: "approved" | "rejected" = to;
+            expect(narrowed).toBe("rejected");
+        }
+    });
+
+    it("should return the target state of an allowed transition", () => {
+        const result = StatusMachine.transition("submitted", "approved");
+        expect(result).toEqual({ result: "approved", error: null });
+    });
+
+    it("should return an error for an invalid transition", () => {
+        const result = StatusMachine.transition("draft", "approved");
+
+        expect(result.error).toBeInstanceOf(InvalidTransitionError);
+        expect(result.error?.message).toBe(
+            "Invalid transition from draft to approved",
+        );
+        expect(result.error?.from).toBe("draft");
+        expect(result.error?.to).toBe("approved");
+    });
+
+    it("should return the next states", () => {
+        expect(StatusMachine.nextStates("submitted")).toEqual([
+            "approved",
+            "rejected",
+        ]);
+        expect(StatusMachine.nextStates("approved")).toEqual([]);
+    });
+
+    it("should detect terminal states", () => {
+        expect(StatusMachine.isTerminal("approved")).toBe(true);
+        expect(StatusMachine.isTerminal("draft")).toBe(false);
+        expect(StatusMachine.terminalStates).toEqual(["approved"]);
+    });
+
+    it("should fail to compile for invalid transition maps", () => {
+        defineStateMachine(Status, {
+            draft: ["submitted"],
+            // @ts-expect-error - archived is not a status
+            submitted: ["archived"],
+            approved: [],
+            rejected: [],
+        });
+
+        // @ts-expect-error - rejected is missing
+        defineStateMachine(Status, {
+            draft: ["submitted"],
+            submitted: ["approved"],
+            approved: [],
+        });
+    });
+});
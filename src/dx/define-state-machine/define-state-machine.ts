@@ -0,0 +1,119 @@
+import { failure, success } from "@/dx/result/result";
+import { safeStringLiteral } from "@/dx/safe-string-literal/safe-string-literal";
+import { Result } from "@/dx/try-catch/try-catch";
+
+/**
+ * The allowed transitions of every state. States without transitions are terminal states.
+ */
+export type Transitions<V extends string> = { [K in V]: readonly V[] };
+
+/**
+ * The error returned by `transition` if a transition is not allowed.
+ */
+export class InvalidTransitionError<V extends string = string> extends Error {
+    constructor(
+        public readonly from: V,
+        public readonly to: V,
+    ) {
+        super(`Invalid transition from ${from} to ${to}`);
+        this.name = "InvalidTransitionError";
+    }
+}
+
+/**
+ * Type definition for a state machine based on a string literal type.
+ */
+export type StateMachine<V extends string, M extends Transitions<V>> = {
+    /**
+     * All states of the state machine.
+     */
+    states: readonly V[];
+    /**
+     * All states without outgoing transitions.
+     */
+    terminalStates: readonly V[];
+    /**
+     * Checks if a transition is allowed.
+     */
+    canTransition: <F extends V>(from: F, to: V) => to is M[F][number];
+    /**
+     * Returns the target state if the transition is allowed, otherwise an `InvalidTransitionError`.
+     */
+    transition: <F extends V, T extends V>(
+        from: F,
+        to: T,
+    ) => Result<T & M[F][number], InvalidTransitionError<V>>;
+    /**
+     * Returns the states that can be reached from a state.
+     */
+    nextStates: <F extends V>(from: F) => readonly M[F][number][];
+    /**
+     * Checks if a state has no outgoing transitions.
+     */
+    isTerminal: (state: V) => boolean;
+};
+
+/**
+ * Defines a state machine for the values of a string literal type.
+ *
+ * The transition map is type-checked to contain every state and to only reference valid states.
+ *
+ * @param literal - The string literal type created with `safeStringLiteral`.
+ * @param transitions - The allowed target states of every state.
+ * @returns A state machine with helpers to check and perform transitions.
+ * @example
+ * const Status = safeStringLiteral("draft", "submitted", "approved", "rejected");
+ * const StatusMachine = defineStateMachine(Status, {
+ *     draft: ["submitted"],
+ *     submitted: ["approved", "rejected"],
+ *     approved: [],
+ *     rejected: ["draft"],
+ * });
+ *
+ * StatusMachine.canTransition("draft", "submitted"); // true
+ * StatusMachine.transition("draft", "approved"); // { result: null, error: InvalidTransitionError: Invalid transition from draft to approved }
+ * StatusMachine.nextStates("submitted"); // ["approved", "rejected"]
+ * StatusMachine.isTerminal("approved"); // true
+ */
+export default function defineStateMachine<
+    T extends readonly string[],
+    const M extends Transitions<T[number]>,
+>(literal: safeStringLiteral<T>, transitions: M): StateMachine<T[number], M> {
+    type Value = T[number];
+
+    const states = literal.values as readonly Value[];
+
+    function nextStates<F extends Value>(from: F): readonly M[F][number][] {
+        return transitions[from] ?? [];
+    }
+
+    function canTransition<F extends Value>(
+        from: F,
+        to: Value,
+    ): to is M[F][number] {
+        return nextStates(from).includes(to);
+    }
+
+    function transition<F extends Value, To extends Value>(
+        from: F,
+        to: To,
+    ): Result<To & M[F][number], InvalidTransitionError<Value>> {
+        if (!canTransition(from, to)) {
+            return failure(new InvalidTransitionError<Value>(from, to));
+        }
+        return success(to);
+    }
+
+    function isTerminal(state: Value): boolean {
+        return nextStates(state).length === 0;
+    }
+
+    return {
+        states,
+        terminalStates: states.filter(isTerminal),
+        canTransition,
+        transition,
+        nextStates,
+        isTerminal,
+    };
+}
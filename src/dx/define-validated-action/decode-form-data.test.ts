@@ -0,0 +1,163 @@
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+
+import { decodeFormData } from "@/dx/define-validated-action/decode-form-data";
+
+function createFormData(entries: [string, string | Blob][]): FormData {
+    const formData = new FormData();
+    entries.forEach(([key, value]) => formData.append(key, value));
+    return formData;
+}
+
+describe("decodeFormData", () => {
+    it("should decode flat fields", () => {
+        const formData = createFormData([
+            ["name", "John"],
+            ["email", "john@example.com"],
+        ]);
+
+        expect(decodeFormData(formData)).toEqual({
+            name: "John",
+            email: "john@example.com",
+        });
+    });
+
+    it("should build arrays from repeated keys", () => {
+        const formData = createFormData([
+            ["colors", "red"],
+            ["colors", "blue"],
+            ["tags[]", "a"],
+        ]);
+
+        expect(decodeFormData(formData)).toEqual({
+            colors: ["red", "blue"],
+            tags: ["a"],
+        });
+    });
+
+    it("should use the schema to decide when to build arrays", () => {
+        const schema = z.object({
+            colors: z.array(z.string()),
+            name: z.string(),
+        });
+        const formData = createFormData([
+            ["colors", "red"],
+            ["name", "first"],
+            ["name", "last"],
+        ]);
+
+        expect(decodeFormData(formData, schema)).toEqual({
+            colors: ["red"],
+            name: "last",
+        });
+    });
+
+    it("should decode nested paths", () => {
+        const formData = createFormData([
+            ["address.city", "Berlin"],
+            ["address.zip", "10115"],
+            ["items[0].name", "Chair"],
+            ["items[0].quantity", "2"],
+            ["items[1].name", "Table"],
+        ]);
+
+        expect(decodeFormData(formData)).toEqual({
+            address: { city: "Berlin", zip: "10115" },
+            items: [{ name: "Chair", quantity: "2" }, { name: "Table" }],
+        });
+    });
+
+    it("should decode checkbox booleans", () => {
+        const schema = z.object({
+            newsletter: z.boolean(),
+            terms: z.boolean().optional(),
+            consent: z.boolean(),
+            settings: z.object({ darkMode: z.boolean() }),
+            items: z.array(z.object({ selected: z.boolean() })),
+        });
+        const formData = createFormData([
+            ["newsletter", "on"],
+            ["consent", "false"],
+            ["consent", "true"],
+            ["settings.darkMode", "off"],
+            ["items[0].selected", "on"],
+            ["items[1].name", "Table"],
+        ]);
+
+        expect(decodeFormData(formData, schema)).toEqual({
+            newsletter: true,
+            terms: false,
+            consent: true,
+            settings: { darkMode: false },
+            items: [{ selected: true }, { name: "Table", selected: false }],
+        });
+    });
+
+    it("should keep files intact", () => {
+        const schema = z.object({ attachments: z.array(z.instanceof(File)) });
+        const file = new File(["content"], "document.txt");
+        const formData = createFormData([["attachments", file]]);
+
+        const decoded = decodeFormData(formData, schema);
+
+        expect(decoded.attachments).toHaveLength(1);
+        expect((decoded.attachments as File[])[0]).toBeInstanceOf(File);
+        expect((decoded.attachments as File[])[0].name).toBe("document.txt");
+    });
+
+    it("should ignore paths that would pollute the prototype", () => {
+        const formData = createFormData([
+            ["__proto__.isAdmin", "true"],
+            ["constructor.prototype.isAdmin", "true"],
+            ["items[0].__proto__.isAdmin", "true"],
+            ["items[0].name", "Chair"],
+        ]);
+
+        const decoded = decodeFormData(formData);
+
+        expect(decoded).toEqual({ items: [{ name: "Chair" }] });
+        expect(({} as Record<string, unknown>).isAdmin).toBeUndefined();
+        expect(Object.prototype).not.toHaveProperty("isAdmin");
+    });
+
+    it("should compact gapped indices", () => {
+        const schema = z.object({
+            items: z.array(z.object({ name: z.string() })),
+        });
+        const formData = createFormData([
+            ["items[0].name", "Chair"],
+            ["items[3].name", "Table"],
+            ["items[3].name", "Desk"],
+            ["items[99999999].name", "Lamp"],
+        ]);
+
+        const decoded = decodeFormData(formData, schema);
+
+        expect(decoded).toEqual({
+            items: [{ name: "Chair" }, { name: "Desk" }, { name: "Lamp" }],
+        });
+        expect(schema.safeParse(decoded).success).toBe(true);
+    });
+
+    it("should compact indices that don't start at zero", () => {
+        const schema = z.object({
+            items: z.array(z.object({ name: z.string(), amount: z.string() })),
+        });
+        const formData = createFormData([
+            ["items[2].name", "Chair"],
+            ["items[2].amount", "1"],
+            ["items[5].name", "Table"],
+            ["items[5].amount", "2"],
+        ]);
+
+        const decoded = decodeFormData(formData, schema);
+
+        expect(decoded).toEqual({
+            items: [
+                { name: "Chair", amount: "1" },
+                { name: "Table", amount: "2" },
+            ],
+        });
+        expect(schema.safeParse(decoded).success).toBe(true);
+    });
+});
@@ -0,0 +1,268 @@
+import { ZodTypeAny, z } from "zod";
+
+/**
+ * A segment of a form field path. `null` appends to an array, e.g. for `tags[]`.
+ */
+type PathSegment = string | number | null;
+
+type Container = Record<string, unknown> | unknown[];
+
+/**
+ * Maps the indices of the submitted paths to the positions in the decoded arrays.
+ */
+type ArraySlots = WeakMap<unknown[], Map<number, number>>;
+
+const TRUE_VALUES = ["on", "true", "1", "yes"];
+const FALSE_VALUES = ["off", "false", "0", "no", ""];
+
+/**
+ * Path segments that would write into the prototype of the decoded objects.
+ */
+const UNSAFE_SEGMENTS = ["__proto__", "constructor", "prototype"];
+
+/**
+ * Decodes `FormData` into a plain object which can be validated with the same zod schema as a plain object input.
+ *
+ * - Nested paths like `address.city` or `items[0].name` build nested objects and arrays.
+ *   Array indices are compacted in order of their first appearance, so rows removed on the client (e.g. only `items[2]` and `items[5]`) don't leave holes.
+ * - Repeated keys (e.g. multi-selects and checkbox groups) and `tags[]` keys build arrays.
+ *   If the schema expects an array, a single value is decoded as array as well. If the schema expects a single value, the last value wins.
+ * - Fields of type boolean are decoded from checkbox values (`"on"`, `"true"`, `"1"`, ...). Unchecked checkboxes are not submitted by the browser, so missing boolean fields are decoded as `false`.
+ * - `File` entries are kept as they are.
+ * - Entries with unsafe path segments (`__proto__`, `constructor`, `prototype`) are ignored.
+ *
+ * @param formData - The form data to decode.
+ * @param schema - The zod schema of the input. It's used to decide when to build arrays and booleans.
+ * @returns The decoded form data.
+ * @example
+ * const formData = new FormData();
+ * formData.append("tags", "a");
+ * formData.append("items[0].name", "Chair");
+ * formData.append("newsletter", "on");
+ *
+ * decodeFormData(formData, schema); // { tags: ["a"], items: [{ name: "Chair" }], newsletter: true, terms: false }
+ */
+export function decodeFormData(
+    formData: FormData,
+    schema?: ZodTypeAny,
+): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    const slots: ArraySlots = new WeakMap();
+
+    formData.forEach((value, key) => {
+        const path = parsePath(key);
+        if (isSafePath(path)) {
+            assign(result, path, value, schema, slots);
+        }
+    });
+    fillUncheckedCheckboxes(result, schema);
+
+    return result;
+}
+
+function parsePath(key: string): PathSegment[] {
+    const segments: PathSegment[] = [];
+    for (const match of key.matchAll(/\[(\d*)\]|\.?([^.[\]]+)/g)) {
+        if (match[2] !== undefined) {
+            segments.push(match[2]);
+        } else {
+            segments.push(match[1] === "" ? null : Number(match[1]));
+        }
+    }
+    return segments.length > 0 ? segments : [key];
+}
+
+function isSafePath(path: PathSegment[]): boolean {
+    return path.every(
+        (segment) =>
+            typeof segment !== "string" || !UNSAFE_SEGMENTS.includes(segment),
+    );
+}
+
+/**
+ * Returns the position of an index in the array. Unknown indices get the next free position.
+ */
+function getSlot(list: unknown[], index: number, slots: ArraySlots): number {
+    let indices = slots.get(list);
+    if (!indices) {
+        indices = new Map();
+        slots.set(list, indices);
+    }
+
+    let slot = indices.get(index);
+    if (slot === undefined) {
+        slot = list.length;
+        indices.set(index, slot);
+    }
+    return slot;
+}
+
+function hasOwn(target: object, key: PropertyKey): boolean {
+    return Object.prototype.hasOwnProperty.call(target, key);
+}
+
+function assign(
+    target: Container,
+    path: PathSegment[],
+    value: FormDataEntryValue,
+    schema: ZodTypeAny | undefined,
+    slots: ArraySlots,
+): void {
+    const [first, ...rest] = path;
+    const childSchema = getChildSchema(schema, first);
+    const segment =
+        typeof first === "number" && Array.isArray(target)
+            ? getSlot(target, first, slots)
+            : first;
+
+    if (segment === null) {
+        const list = target as unknown[];
+        if (rest.length === 0) {
+            list.push(decodeValue(value, childSchema));
+            return;
+        }
+        const child = createContainer(rest[0]);
+        list.push(child);
+        assign(child, rest, value, childSchema, slots);
+        return;
+    }
+
+    const record = target as Record<string | number, unknown>;
+
+    if (rest.length > 0) {
+        if (
+            !hasOwn(record, segment) ||
+            typeof record[segment] !== "object" ||
+            record[segment] === null
+        ) {
+            record[segment] = createContainer(rest[0]);
+        }
+        assign(record[segment] as Container, rest, value, childSchema, slots);
+        return;
+    }
+
+    const existing = hasOwn(record, segment) ? record[segment] : undefined;
+    const type = unwrap(childSchema);
+
+    if (type instanceof z.ZodArray) {
+        const list = Array.isArray(existing) ? existing : [];
+        list.push(decodeValue(value, type.element));
+        record[segment] = list;
+    } else if (type === undefined && existing !== undefined) {
+        record[segment] = Array.isArray(existing)
+            ? [...existing, value]
+            : [existing, value];
+    } else {
+        record[segment] = decodeValue(value, childSchema);
+    }
+}
+
+function createContainer(next: PathSegment): Container {
+    return typeof next === "string" ? {} : [];
+}
+
+function decodeValue(
+    value: FormDataEntryValue,
+    schema: ZodTypeAny | undefined,
+): unknown {
+    if (
+        typeof value !== "string" ||
+        !(unwrap(schema) instanceof z.ZodBoolean)
+    ) {
+        return value;
+    }
+
+    const normalized = value.trim().toLowerCase();
+    if (TRUE_VALUES.includes(normalized)) {
+        return true;
+    }
+    if (FALSE_VALUES.includes(normalized)) {
+        return false;
+    }
+    return value;
+}
+
+function fillUncheckedCheckboxes(
+    target: unknown,
+    schema: ZodTypeAny | undefined,
+): void {
+    const type = unwrap(schema);
+
+    if (type instanceof z.ZodArray && Array.isArray(target)) {
+        target.forEach((item) => fillUncheckedCheckboxes(item, type.element));
+        return;
+    }
+
+    if (
+        !(type instanceof z.ZodObject) ||
+        typeof target !== "object" ||
+        target === null
+    ) {
+        return;
+    }
+
+    const record = target as Record<string, unknown>;
+    for (const [key, fieldSchema] of Object.entries(
+        type.shape as Record<string, ZodTypeAny>,
+    )) {
+        if (
+            record[key] === undefined &&
+            unwrap(fieldSchema) instanceof z.ZodBoolean
+        ) {
+            record[key] = false;
+        } else {
+            fillUncheckedCheckboxes(record[key], fieldSchema);
+        }
+    }
+}
+
+function getChildSchema(
+    schema: ZodTypeAny | undefined,
+    segment: PathSegment,
+): ZodTypeAny | undefined {
+    const type = unwrap(schema);
+
+    if (type instanceof z.ZodObject && typeof segment === "string") {
+        return (type.shape as Record<string, ZodTypeAny>)[segment];
+    }
+    if (type instanceof z.ZodArray && typeof segment !== "string") {
+        return type.element;
+    }
+    if (type instanceof z.ZodTuple && typeof segment === "number") {
+        return type.items[segment];
+    }
+    if (type instanceof z.ZodRecord) {
+        return type.valueSchema;
+    }
+    return undefined;
+}
+
+/**
+ * Removes wrappers like optional, default and effects to get the schema that describes the shape of the value.
+ */
+function unwrap(schema: ZodTypeAny | undefined): ZodTypeAny | undefined {
+    if (
+        schema instanceof z.ZodOptional ||
+        schema instanceof z.ZodNullable ||
+        schema instanceof z.ZodBranded
+    ) {
+        return unwrap(schema.unwrap());
+    }
+    if (
+        schema instanceof z.ZodDefault ||
+        schema instanceof z.ZodCatch ||
+        schema instanceof z.ZodReadonly
+    ) {
+        return unwrap(schema._def.innerType);
+    }
+    if (schema instanceof z.ZodEffects) {
+        return unwrap(schema.innerType());
+    }
+    if (schema instanceof z.ZodPipeline) {
+        return unwrap(schema._def.in);
+    }
+    if (schema instanceof z.ZodLazy) {
+        return unwrap(schema.schema);
+    }
+    return schema;
+}
@@ -1,7 +1,16 @@
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import { z } from "zod";
 
-import defineValidatedAction from "./define-validated-action";
+import { getFieldErrors } from "@/dx/define-validated-action/field-errors";
+import { ForbiddenError, isOwner } from "@/dx/policy/policy";
+
+import defineValidatedAction, {
+    ActionConflictError,
+    ActionOutputError,
+    ActionValidationError,
+    PublicActionError,
+    use,
+} from "./define-validated-action";
 
 describe("defineValidatedAction", () => {
     type User = { id: string; email: string };
@@ -63,7 +72,9 @@ describe("defineValidatedAction", () => {
         });
 
         await definedAction({ test: "value" });
-        expect(onError).toHaveBeenCalledWith(new Error("Unexpected error"));
+        expect(onError).toHaveBeenCalledWith(new Error("Unexpected error"), {
+            errorId: expect.any(String),
+        });
     });
 
     it("should return the expected result", async () => {
@@ -124,6 +135,33 @@ describe("defineValidatedAction", () => {
             expect(res.error!.fieldErrors?.test).toHaveLength(1);
             expect(res.error!.fieldErrors?.test![0]).toBe("Requires a number");
         });
+
+        it("should decode repeated keys, nested paths and checkboxes", async () => {
+            const definedAction = defineValidatedAction({
+                type: "form",
+                schema: z.object({
+                    tags: z.array(z.string()),
+                    address: z.object({ city: z.string() }),
+                    newsletter: z.boolean(),
+                }),
+                action: async (input) => {
+                    return input;
+                },
+            });
+
+            const formData = new FormData();
+            formData.append("tags", "a");
+            formData.append("tags", "b");
+            formData.append("address.city", "Berlin");
+
+            const res = await definedAction(formData);
+            expect(res.error).toBeUndefined();
+            expect(res.result).toEqual({
+                tags: ["a", "b"],
+                address: { city: "Berlin" },
+                newsletter: false,
+            });
+        });
     });
 
     describe("with no input", () => {
@@ -189,4 +227,441 @@ describe("defineValidatedAction", () => {
             await expect(definedAction()).rejects.toThrow("NEXT_REDIRECT");
         });
     });
+
+    describe("with error codes", () => {
+        const schema = z
+            .object({ email: z.string(), password: z.string() })
+            .refine((input) => input.password !== input.email, {
+                message: "Password must differ from the email",
+            });
+        type Input = z.infer<typeof schema>;
+
+        it("should return the validation code and form errors", async () => {
+            const definedAction = defineValidatedAction({
+                type: "object",
+                schema,
+                action: async () => "value",
+            });
+
+            const res = await definedAction({
+                email: "john@example.com",
+                password: "john@example.com",
+            });
+            expect(res.error).toEqual({
+                code: "validation",
+                fieldErrors: {},
+                fieldErrorsByPath: {},
+                formErrors: ["Password must differ from the email"],
+            });
+        });
+
+        it("should return field errors thrown by the action", async () => {
+            const onError = vi.fn();
+            const definedAction = defineValidatedAction({
+                type: "object",
+                schema,
+                action: async (): Promise<string> => {
+                    throw new ActionValidationError<Input>({
+                        email: ["Email already taken"],
+                    });
+                },
+                onError,
+            });
+
+            const res = await definedAction({
+                email: "john@example.com",
+                password: "secret",
+            });
+            expect(res.error).toEqual({
+                code: "validation",
+                fieldErrors: { email: ["Email already taken"] },
+                fieldErrorsByPath: { email: ["Email already taken"] },
+                formErrors: [],
+            });
+            expect(onError).not.toHaveBeenCalled();
+        });
+
+        it("should return errors of nested fields by path", async () => {
+            const definedAction = defineValidatedAction({
+                type: "object",
+                schema: z.object({
+                    addresses: z.array(
+                        z.object({ zip: z.string().length(5, "Invalid zip") }),
+                    ),
+                }),
+                action: async () => "value",
+            });
+
+            const res = await definedAction({
+                addresses: [{ zip: "10115" }, { zip: "123" }],
+            });
+            expect(res.error!.fieldErrorsByPath).toEqual({
+                "addresses.1.zip": ["Invalid zip"],
+            });
+            expect(getFieldErrors(res.error, "addresses.1.zip")).toEqual([
+                "Invalid zip",
+            ]);
+        });
+
+        it("should only allow field errors of the input", () => {
+            // @ts-expect-error - name is not a field of the input
+            new ActionValidationError<Input>({ name: ["Required"] });
+        });
+
+        it("should return the conflict code", async () => {
+            const definedAction = defineValidatedAction({
+                type: "null",
+                action: async () => {
+                    throw new ActionConflictError("Project was changed");
+                },
+            });
+
+            const res = await definedAction();
+            expect(res.error).toEqual({
+                code: "conflict",
+                message: "Project was changed",
+            });
+        });
+
+        it("should return the unexpected code", async () => {
+            const definedAction = defineValidatedAction({
+                type: "null",
+                action: async () => {
+                    throw new Error("Unexpected error");
+                },
+            });
+
+            const res = await definedAction();
+            expect(res.error).toEqual({
+                code: "unexpected",
+                message: "Unexpected error",
+                errorId: expect.any(String),
+            });
+        });
+    });
+
+    describe("with error exposure", () => {
+        it("should hide the message of internal errors", async () => {
+            const onError = vi.fn();
+            const definedAction = defineValidatedAction({
+                type: "null",
+                action: async () => {
+                    throw new Error("duplicate key value violates constraint");
+                },
+                exposeErrors: false,
+                onError,
+            });
+
+            const res = await definedAction();
+            expect(res.error!.code).toBe("unexpected");
+            expect(res.error!.message).toBe("An unexpected error occurred");
+            expect(res.error!.errorId).toEqual(expect.any(String));
+            expect(onError).toHaveBeenCalledWith(
+                new Error("duplicate key value violates constraint"),
+                { errorId: res.error!.errorId },
+            );
+        });
+
+        it("should keep the message of public errors", async () => {
+            const definedAction = defineValidatedAction({
+                type: "object",
+                schema: z.object({ public: z.enum(["class", "flag"]) }),
+                action: async (input) => {
+                    if (input.public === "class") {
+                        throw new PublicActionError("Project limit reached");
+                    }
+                    throw Object.assign(new Error("Plan expired"), {
+                        expose: true,
+                    });
+                },
+                exposeErrors: false,
+            });
+
+            const classRes = await definedAction({ public: "class" });
+            expect(classRes.error!.message).toBe("Project limit reached");
+            expect(classRes.error!.errorId).toEqual(expect.any(String));
+
+            const flagRes = await definedAction({ public: "flag" });
+            expect(flagRes.error!.message).toBe("Plan expired");
+        });
+
+        it("should expose all messages in development", async () => {
+            const definedAction = defineValidatedAction({
+                type: "null",
+                action: async () => {
+                    throw new Error("duplicate key value violates constraint");
+                },
+            });
+
+            const res = await definedAction();
+            expect(process.env.NODE_ENV).toBe("development");
+            expect(res.error!.message).toBe(
+                "duplicate key value violates constraint",
+            );
+        });
+    });
+
+    describe("with output schema", () => {
+        const outputSchema = z.object({ id: z.string(), name: z.string() });
+
+        it("should strip fields that are not part of the output schema", async () => {
+            const definedAction = defineValidatedAction({
+                type: "object",
+                schema: z.object({ name: z.string() }),
+                outputSchema,
+                action: async ({ name }) => ({
+                    id: "1",
+                    name,
+                    passwordHash: "secret",
+                }),
+            });
+
+            const res = await definedAction({ name: "John" });
+            const result: { id: string; name: string } | undefined = res.result;
+            expect(result).toEqual({ id: "1", name: "John" });
+            // @ts-expect-error - passwordHash is not part of the output
+            expect(res.result?.passwordHash).toBeUndefined();
+        });
+
+        it("should report a mismatch to onError without exposing it", async () => {
+            const onError = vi.fn();
+            const definedAction = defineValidatedAction({
+                type: "null",
+                outputSchema,
+                action: async () => ({ id: 1 }),
+                exposeErrors: false,
+                onError,
+            });
+
+            const res = await definedAction();
+            expect(res.result).toBeUndefined();
+            expect(res.error).toEqual({
+                code: "unexpected",
+                message: "An unexpected error occurred",
+                errorId: expect.any(String),
+            });
+            expect(onError).toHaveBeenCalledTimes(1);
+            expect(onError.mock.calls[0][0]).toBeInstanceOf(ActionOutputError);
+        });
+
+        it("should parse the output of actions with middlewares", async () => {
+            const definedAction = use(async ({ next }) => next()).define({
+                type: "null",
+                outputSchema,
+                action: async () => ({ id: "1", name: "John", internal: true }),
+            });
+
+            const res = await definedAction();
+            expect(res.result).toEqual({ id: "1", name: "John" });
+        });
+    });
+
+    describe("with authorization", () => {
+        const schema = z.object({ ownerId: z.string() });
+        const canEdit = isOwner((input: { ownerId: string }) => input.ownerId);
+
+        it("should call the action if the policy allows it", async () => {
+            const definedAction = defineValidatedAction({
+                auth: authFunc,
+                authorize: canEdit,
+                type: "object",
+                schema,
+                action: async ({ ownerId }) => ownerId,
+            });
+
+            const res = await definedAction({ ownerId: mockUser.id });
+            expect(res.error).toBeUndefined();
+            expect(res.result).toBe(mockUser.id);
+        });
+
+        it("should return a forbidden error if the policy denies it", async () => {
+            const action = vi.fn(async () => "value");
+            const onError = vi.fn();
+            const definedAction = defineValidatedAction({
+                auth: authFunc,
+                authorize: canEdit,
+                type: "object",
+                schema,
+                action,
+                onError,
+            });
+
+            const res = await definedAction({ ownerId: "someone-else" });
+            expect(res.error).toEqual({
+                code: "auth",
+                forbidden: true,
+                message: "Forbidden",
+            });
+            expect(action).not.toHaveBeenCalled();
+            expect(onError).not.toHaveBeenCalled();
+        });
+
+        it("should validate the input before authorization", async () => {
+            const authorize = vi.fn(() => true);
+            const definedAction = defineValidatedAction({
+                auth: authFunc,
+                authorize,
+                type: "object",
+                schema,
+                action: async () => "value",
+            });
+
+            const res = await definedAction({} as { ownerId: string });
+            expect(res.error!.fieldErrors?.ownerId).toBeDefined();
+            expect(authorize).not.toHaveBeenCalled();
+        });
+
+        it("should return a forbidden error if the action throws a ForbiddenError", async () => {
+            const definedAction = defineValidatedAction({
+                type: "null",
+                action: async () => {
+                    throw new ForbiddenError("Project is archived");
+                },
+            });
+
+            const res = await definedAction();
+            expect(res.error).toEqual({
+                code: "auth",
+                forbidden: true,
+                message: "Project is archived",
+            });
+        });
+    });
+
+    describe("with control flow errors", () => {
+        it("should rethrow Next.js control flow errors", async () => {
+            const notFound = Object.assign(
+                new Error("NEXT_HTTP_ERROR_FALLBACK;404"),
+                {
+                    digest: "NEXT_HTTP_ERROR_FALLBACK;404",
+                },
+            );
+            const onError = vi.fn();
+            const definedAction = defineValidatedAction({
+                type: "object",
+                schema: z.object({ id: z.string() }),
+                action: async () => {
+                    throw notFound;
+                },
+                onError,
+            });
+
+            await expect(definedAction({ id: "1" })).rejects.toBe(notFound);
+            expect(onError).not.toHaveBeenCalled();
+        });
+
+        it("should use a custom control flow error detector", async () => {
+            class RedirectError extends Error {}
+            const definedAction = defineValidatedAction({
+                type: "null",
+                action: async () => {
+                    throw new RedirectError("/login");
+                },
+                isControlFlowError: (error) => error instanceof RedirectError,
+            });
+
+            await expect(definedAction()).rejects.toBeInstanceOf(RedirectError);
+        });
+    });
+
+    describe("with middlewares", () => {
+        const withUser = use(async ({ next }) => {
+            const user = await authFunc();
+            return next({ user });
+        });
+        const withTenant = withUser.use(async ({ context, next }) => {
+            return next({ tenant: `tenant-of-${context.user.id}` });
+        });
+
+        it("should pass the accumulated context to the action", async () => {
+            const definedAction = withTenant.define({
+                type: "object",
+                schema: z.object({ name: z.string() }),
+                action: async ({ name }, { user, tenant }) => {
+                    const email: string = user.email;
+                    return `${name} - ${email} - ${tenant}`;
+                },
+            });
+
+            const res = await definedAction({ name: "Project" });
+            expect(res.error).toBeUndefined();
+            expect(res.result).toBe(
+                `Project - ${mockUser.email} - tenant-of-1`,
+            );
+        });
+
+        it("should pass the context to actions without input", async () => {
+            const definedAction = withTenant.define({
+                type: "null",
+                action: async ({ tenant }) => tenant,
+            });
+
+            const res = await definedAction();
+            expect(res.result).toBe("tenant-of-1");
+        });
+
+        it("should short-circuit with an error", async () => {
+            const action = vi.fn(async () => "value");
+            const definedAction = withUser
+                .use(async ({ next, context }) => {
+                    if (context.user.id === "1") {
+                        return {
+                            error: {
+                                code: "auth",
+                                message: "Feature disabled",
+                            },
+                        };
+                    }
+                    return next();
+                })
+                .define({ type: "null", action });
+
+            const res = await definedAction();
+            expect(res.error!.message).toBe("Feature disabled");
+            expect(action).not.toHaveBeenCalled();
+        });
+
+        it("should wrap the execution of the action", async () => {
+            const calls: string[] = [];
+            const definedAction = use(async ({ next }) => {
+                calls.push("before");
+                const response = await next();
+                calls.push(response.error ? "after error" : "after result");
+                return response;
+            }).define({
+                type: "object",
+                schema: z.object({ test: z.string() }),
+                action: async () => {
+                    calls.push("action");
+                    throw new Error("Unexpected error");
+                },
+            });
+
+            const res = await definedAction({ test: "value" });
+            expect(res.error!.message).toBe("Unexpected error");
+            expect(calls).toEqual(["before", "action", "after error"]);
+        });
+
+        it("should handle errors thrown by a middleware", async () => {
+            const onError = vi.fn();
+            const definedAction = use(async () => {
+                throw new Error("Tenant not found");
+            }).define({ type: "null", action: async () => "value", onError });
+
+            const res = await definedAction();
+            expect(res.error!.message).toBe("Tenant not found");
+            expect(onError).toHaveBeenCalledWith(
+                new Error("Tenant not found"),
+                { errorId: expect.any(String) },
+            );
+        });
+
+        it("should rethrow redirects of a middleware", async () => {
+            const definedAction = use(async () => {
+                throw new Error("NEXT_REDIRECT");
+            }).define({ type: "null", action: async () => "value" });
+
+            await expect(definedAction()).rejects.toThrow("NEXT_REDIRECT");
+        });
+    });
 });
@@ -1,5 +1,15 @@
-import { ZodSchema } from "zod";
+import { ZodError, ZodSchema, ZodType, ZodTypeDef } from "zod";
 
+import {
+    ControlFlowErrorDetector,
+    isNextControlFlowError,
+} from "@/dx/control-flow-error/control-flow-error";
+import { decodeFormData } from "@/dx/define-validated-action/decode-form-data";
+import {
+    FieldErrorsByPath,
+    toFieldErrorsByPath,
+} from "@/dx/define-validated-action/field-errors";
+import { ForbiddenError, Policy } from "@/dx/policy/policy";
 import { tryCatch } from "@/dx/try-catch/try-catch";
 
 export type ActionFunction<Input, Output, AuthUser> =
@@ -31,6 +41,34 @@ type ActionFunctionNoAuth<Input, Output> = (input: Input) => Promise<Output>;
  */
 type AuthFunction<AuthUser> = () => Promise<AuthUser>;
 
+/**
+ * A function that is called if an unexpected error occurs during the execution of the action, e.g. to log it to Sentry.
+ *
+ * The `errorId` of the report is also returned to the client, so a support request can be correlated with the logs.
+ */
+type OnErrorFunction = (error: Error, report: ActionErrorReport) => void;
+
+/**
+ * Additional information about an unexpected error passed to `onError`.
+ */
+export type ActionErrorReport = {
+    errorId: string;
+};
+
+/**
+ * Options for handling unexpected errors.
+ */
+type ErrorOptions = {
+    exposeErrors?: boolean;
+    isControlFlowError?: ControlFlowErrorDetector;
+    onError?: OnErrorFunction;
+};
+
+/**
+ * The message returned to the client for unexpected errors that are not public.
+ */
+const UNEXPECTED_ERROR_MESSAGE = "An unexpected error occurred";
+
 /**
  * The result of an action.
  *
@@ -48,29 +86,117 @@ export type ActionFunctionResult<Input, Output> = {
  *
  * This is a union of all possible errors that can occur during the execution of an action.
  *
- * The error either contains a `fieldErrors` object or a `message` string.
+ * The `code` tells the client which kind of error occurred:
+ *
+ * - `validation`: The input is invalid. Either the zod schema failed or the action threw an `ActionValidationError`.
+ * - `auth`: The `authorize` hook denied the action or the action threw a `ForbiddenError`. The `forbidden` flag is set as well.
+ * - `conflict`: The action threw an `ActionConflictError`, e.g. because the resource was changed in the meantime.
+ * - `unexpected`: Any other error that was thrown during the execution of the action.
  *
  * The `fieldErrors` object is a typesafe represenation of all validation errors of the input to the action as defined by the zod schema.
  *
+ * The `fieldErrorsByPath` object contains the same validation errors keyed by the path of the field (e.g. `"addresses.2.zip"`), so errors of nested objects and arrays are kept at the field they belong to. Use `getFieldErrors` to look them up.
+ *
+ * The `formErrors` array contains validation errors which don't belong to a single field, e.g. from a `refine` on the whole schema.
+ *
  * The `message` string is populated by any error that was thrown during the execution of the action. This is a catch all for any error that is not a validation error.
+ * To not leak internal details, unexpected errors only keep their message if they are public (a `PublicActionError` or an error with `expose: true`) or `exposeErrors` is enabled.
+ * Otherwise the message is generic and the `errorId` can be used to find the error passed to `onError`.
  */
 export type ActionError<Input> = {
+    code: ActionErrorCode;
     fieldErrors?: FieldErrors<Input>;
+    fieldErrorsByPath?: FieldErrorsByPath<Input>;
+    formErrors?: string[];
     message?: string;
+    errorId?: string;
+    forbidden?: boolean;
 };
 
+/**
+ * The machine-readable kind of an `ActionError`.
+ */
+export type ActionErrorCode = "validation" | "auth" | "conflict" | "unexpected";
+
 /**
  * A typesafe representation of all validation errors of the input to the action as defined by the zod schema.
  */
-type FieldErrors<T> = {
+export type FieldErrors<T> = {
     [K in keyof T]?: string[];
 };
 
+/**
+ * An error an action can throw to report validation errors that can only be checked on the server, e.g. "email already taken".
+ *
+ * The error is returned like a failed schema validation with the code `validation` and isn't passed to `onError`.
+ *
+ * @example
+ * ```ts
+ * action: async (input: Input) => {
+ *     if (await isEmailTaken(input.email)) {
+ *         throw new ActionValidationError<Input>({ email: ["Email already taken"] });
+ *     }
+ * }
+ * ```
+ */
+export class ActionValidationError<Input = unknown> extends Error {
+    constructor(
+        public readonly fieldErrors: FieldErrors<Input>,
+        public readonly formErrors: string[] = [],
+    ) {
+        super("Validation failed");
+        this.name = "ActionValidationError";
+    }
+}
+
+/**
+ * An error whose message is safe to show to the user, e.g. "Project limit reached".
+ *
+ * Other errors can be marked as public with an `expose: true` property instead.
+ * The error is returned with the code `unexpected` and is passed to `onError`.
+ */
+export class PublicActionError extends Error {
+    public readonly expose = true;
+
+    constructor(message: string) {
+        super(message);
+        this.name = "PublicActionError";
+    }
+}
+
+/**
+ * The error passed to `onError` if the result of an action doesn't match its `outputSchema`.
+ */
+export class ActionOutputError extends Error {
+    constructor(public readonly zodError: ZodError) {
+        super(
+            `Action output doesn't match the output schema: ${zodError.message}`,
+        );
+        this.name = "ActionOutputError";
+    }
+}
+
+/**
+ * An error an action can throw if the operation conflicts with the current state, e.g. a concurrent update.
+ *
+ * The error is returned with the code `conflict` and its message and isn't passed to `onError`.
+ */
+export class ActionConflictError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "ActionConflictError";
+    }
+}
+
 /**
  * A generic wrapper to define server actions in Next.js. Using this function, you can define a server action where the input is automatically validated against a zod schema. Additionally, the action is authenticated and the user is passed to the action.
  *
  * The `auth` function is used to validate the user. It's expected that the function redirects the user if they're not authenticated.
  *
+ * The optional `authorize` policy runs after the validation of the input and before the action. If it denies the action, a `forbidden` error is returned.
+ *
+ * The optional `outputSchema` parses the result before it's returned to the client, so fields that are not part of the schema are stripped.
+ *
  * The onError function is called if an error occurs during the execution of the action. This is useful for logging errors to e.g. Sentry.
  *
  * @returns A server action that can be called with `FormData` as input from the client.
@@ -89,17 +215,28 @@ type FieldErrors<T> = {
  * const actionResponse = await action(formData); // actionResponse.result === "John - john@example.com"
  * ```
  */
-export default function defineValidatedAction<Input, Output, AuthUser>(config: {
+export default function defineValidatedAction<
+    Input,
+    Output,
+    AuthUser,
+    ParsedOutput = Output,
+>(config: {
     schema: ZodSchema<Input>;
     action: ActionFunctionAuth<Input, Output, AuthUser>;
     type: "form";
     auth: AuthFunction<AuthUser>;
-    onError?: (error: Error) => void;
-}): (input: FormData) => Promise<ActionFunctionResult<Input, Output>>;
+    authorize?: Policy<AuthUser, Input>;
+    outputSchema?: ZodType<ParsedOutput, ZodTypeDef, unknown>;
+    exposeErrors?: boolean;
+    isControlFlowError?: ControlFlowErrorDetector;
+    onError?: OnErrorFunction;
+}): (input: FormData) => Promise<ActionFunctionResult<Input, ParsedOutput>>;
 
 /**
  * A generic wrapper to define server actions in Next.js. Using this function, you can define a server action where the input is automatically validated against a zod schema.
  *
+ * The optional `outputSchema` parses the result before it's returned to the client, so fields that are not part of the schema are stripped.
+ *
  * The onError function is called if an error occurs during the execution of the action. This is useful for logging errors to e.g. Sentry.
  *
  * @returns A server action that can be called with `FormData` as input from the client.
@@ -117,18 +254,29 @@ export default function defineValidatedAction<Input, Output, AuthUser>(config: {
  * const actionResponse = await action(formData); // actionResponse.result === "John"
  * ```
  */
-export default function defineValidatedAction<Input, Output>(config: {
+export default function defineValidatedAction<
+    Input,
+    Output,
+    ParsedOutput = Output,
+>(config: {
     schema: ZodSchema<Input>;
     action: ActionFunctionNoAuth<Input, Output>;
     type: "form";
-    onError?: (error: Error) => void;
-}): (input: FormData) => Promise<ActionFunctionResult<Input, Output>>;
+    outputSchema?: ZodType<ParsedOutput, ZodTypeDef, unknown>;
+    exposeErrors?: boolean;
+    isControlFlowError?: ControlFlowErrorDetector;
+    onError?: OnErrorFunction;
+}): (input: FormData) => Promise<ActionFunctionResult<Input, ParsedOutput>>;
 
 /**
  * A generic wrapper to define server actions in Next.js. Using this function, you can define a server action where the input is automatically validated against a zod schema. Additionally, the action is authenticated and the user is passed to the action.
  *
  * The `auth` function is used to validate the user. It's expected that the function redirects the user if they're not authenticated.
  *
+ * The optional `authorize` policy runs after the validation of the input and before the action. If it denies the action, a `forbidden` error is returned.
+ *
+ * The optional `outputSchema` parses the result before it's returned to the client, so fields that are not part of the schema are stripped.
+ *
  * The onError function is called if an error occurs during the execution of the action. This is useful for logging errors to e.g. Sentry.
  *
  * @returns A server action that can be called with a plain object as input from the client.
@@ -145,17 +293,28 @@ export default function defineValidatedAction<Input, Output>(config: {
  * const actionResponse = await action({ name: "John" }); // actionResponse.result === "John - john@example.com"
  * ```
  */
-export default function defineValidatedAction<Input, Output, AuthUser>(config: {
+export default function defineValidatedAction<
+    Input,
+    Output,
+    AuthUser,
+    ParsedOutput = Output,
+>(config: {
     schema: ZodSchema<Input>;
     action: ActionFunctionAuth<Input, Output, AuthUser>;
     type: "object";
     auth: AuthFunction<AuthUser>;
-    onError?: (error: Error) => void;
-}): (input: Input) => Promise<ActionFunctionResult<Input, Output>>;
+    authorize?: Policy<AuthUser, Input>;
+    outputSchema?: ZodType<ParsedOutput, ZodTypeDef, unknown>;
+    exposeErrors?: boolean;
+    isControlFlowError?: ControlFlowErrorDetector;
+    onError?: OnErrorFunction;
+}): (input: Input) => Promise<ActionFunctionResult<Input, ParsedOutput>>;
 
 /**
  * A generic wrapper to define server actions in Next.js. Using this function, you can define a server action where the input is automatically validated against a zod schema.
  *
+ * The optional `outputSchema` parses the result before it's returned to the client, so fields that are not part of the schema are stripped.
+ *
  * The onError function is called if an error occurs during the execution of the action. This is useful for logging errors to e.g. Sentry.
  *
  * @returns A server action that can be called with a plain object as input from the client.
@@ -171,18 +330,27 @@ export default function defineValidatedAction<Input, Output, AuthUser>(config: {
  * const actionResponse = await action({ name: "John" }); // actionResponse.result === "John"
  * ```
  */
-export default function defineValidatedAction<Input, Output>(config: {
+export default function defineValidatedAction<
+    Input,
+    Output,
+    ParsedOutput = Output,
+>(config: {
     schema: ZodSchema<Input>;
     action: ActionFunctionNoAuth<Input, Output>;
     type: "object";
-    onError?: (error: Error) => void;
-}): (input: Input) => Promise<ActionFunctionResult<Input, Output>>;
+    outputSchema?: ZodType<ParsedOutput, ZodTypeDef, unknown>;
+    exposeErrors?: boolean;
+    isControlFlowError?: ControlFlowErrorDetector;
+    onError?: OnErrorFunction;
+}): (input: Input) => Promise<ActionFunctionResult<Input, ParsedOutput>>;
 
 /**
  * A generic wrapper to define server actions in Next.js. Using this function, you can define a server action that requires no input. Additionally, the action is authenticated and the user is passed to the action.
  *
  * The `auth` function is used to validate the user. It's expected that the function redirects the user if they're not authenticated.
  *
+ * The optional `outputSchema` parses the result before it's returned to the client, so fields that are not part of the schema are stripped.
+ *
  * The onError function is called if an error occurs during the execution of the action. This is useful for logging errors to e.g. Sentry.
  *
  * @returns A server action that can be called with no input from the client.
@@ -198,16 +366,25 @@ export default function defineValidatedAction<Input, Output>(config: {
  * const actionResponse = await action(); // actionResponse.result === "Hello john@example.com"
  * ```
  */
-export default function defineValidatedAction<Output, AuthUser>(config: {
+export default function defineValidatedAction<
+    Output,
+    AuthUser,
+    ParsedOutput = Output,
+>(config: {
     action: ActionFunctionAuthNoInput<Output, AuthUser>;
     type: "null";
     auth: AuthFunction<AuthUser>;
-    onError?: (error: Error) => void;
-}): () => Promise<ActionFunctionResult<void, Output>>;
+    outputSchema?: ZodType<ParsedOutput, ZodTypeDef, unknown>;
+    exposeErrors?: boolean;
+    isControlFlowError?: ControlFlowErrorDetector;
+    onError?: OnErrorFunction;
+}): () => Promise<ActionFunctionResult<void, ParsedOutput>>;
 
 /**
  * A generic wrapper to define server actions in Next.js. Using this function, you can define a server action that requires no input.
  *
+ * The optional `outputSchema` parses the result before it's returned to the client, so fields that are not part of the schema are stripped.
+ *
  * The onError function is called if an error occurs during the execution of the action. This is useful for logging errors to e.g. Sentry.
  *
  * @returns A server action that can be called with no input from the client.
@@ -222,75 +399,283 @@ export default function defineValidatedAction<Output, AuthUser>(config: {
  * const actionResponse = await action(); // actionResponse.result === "Hello world!"
  * ```
  */
-export default function defineValidatedAction<Output>(config: {
+export default function defineValidatedAction<
+    Output,
+    ParsedOutput = Output,
+>(config: {
     action: ActionFunctionNoAuthNoInput<Output>;
     type: "null";
-    onError?: (error: Error) => void;
-}): () => Promise<ActionFunctionResult<void, Output>>;
+    outputSchema?: ZodType<ParsedOutput, ZodTypeDef, unknown>;
+    exposeErrors?: boolean;
+    isControlFlowError?: ControlFlowErrorDetector;
+    onError?: OnErrorFunction;
+}): () => Promise<ActionFunctionResult<void, ParsedOutput>>;
 
 /**
  * A function that defines a server action where the input is automatically validated against a zod schema.
  *
  * Based on the type of the action, the function can handle different types of input.
  *
- * - `form`: Handles FormData
+ * - `form`: Handles FormData, decoded with `decodeFormData` (nested paths, repeated keys, checkboxes and files)
  * - `object`: Handles a plain object
  * - `null`: No input is allowed
  *
  * The `auth` function is used to validate the user. It's expected that the function redirects the user if they're not authenticated.
  *
+ * The optional `outputSchema` parses the result before it's returned to the client, so fields that are not part of the schema are stripped.
+ * If the result doesn't match the schema, an `ActionOutputError` is passed to `onError` and the client only receives a generic `unexpected` error.
+ *
  * The `onError` function is called if an error occurs during the execution of the action. This is useful for logging errors to e.g. Sentry.
+ * It receives a generated `errorId`, which is also returned to the client. Unless the error is public, the client only receives a generic message.
+ * `exposeErrors` returns the original message of every error, which is the default in development (`NODE_ENV=development`).
+ *
+ * Errors detected by `isControlFlowError` are rethrown instead of being returned, e.g. `redirect()` or `notFound()`. It defaults to `isNextControlFlowError`.
  *
  * @returns A server action that can be called with the appropriate input or no input from the client.
  */
-export default function defineValidatedAction<Input, Output, AuthUser>({
-    schema,
-    action,
-    type,
-    auth,
-    onError,
-}: {
+export default function defineValidatedAction<Input, Output, AuthUser>(
+    config: ActionConfig<Input, Output, AuthUser>,
+): (input?: Input | FormData) => Promise<ActionFunctionResult<Input, Output>> {
+    return (input?: Input | FormData) => runAction(config, input);
+}
+
+/**
+ * The configuration of an action as accepted by the implementation of `defineValidatedAction`.
+ */
+type ActionConfig<Input, Output, AuthUser> = {
     schema?: ZodSchema<Input>;
     action: ActionFunction<Input, Output, AuthUser>;
     type: "form" | "object" | "null";
     auth?: AuthFunction<AuthUser>;
-    onError?: (error: Error) => void;
-}): (input?: Input | FormData) => Promise<ActionFunctionResult<Input, Output>> {
-    return async (
-        input?: Input | FormData,
-    ): Promise<ActionFunctionResult<Input, Output>> => {
-        if (type === "form" && input instanceof FormData) {
-            // Convert FormData to a plain object
-            const formDataInput: Record<string, FormDataEntryValue> = {};
-            input.forEach((value, key) => {
-                formDataInput[key] = value;
-            });
-            return execute(
-                formDataInput as Input,
-                schema!,
-                action as
-                    | ActionFunctionNoAuth<Input, Output>
-                    | ActionFunctionAuth<Input, Output, AuthUser>,
-                auth,
-                onError,
-            );
-        } else if (type === "object") {
-            return execute(
-                input as Input,
-                schema!,
-                action as
-                    | ActionFunctionNoAuth<Input, Output>
-                    | ActionFunctionAuth<Input, Output, AuthUser>,
-                auth,
-                onError,
-            );
-        } else {
-            return executeNoInput(
-                action as ActionFunctionNoAuthNoInput<Output>,
-                auth,
-                onError,
-            ) as Promise<ActionFunctionResult<Input, Output>>;
-        }
+    authorize?: Policy<AuthUser, Input>;
+    outputSchema?: ZodType<Output, ZodTypeDef, unknown>;
+} & ErrorOptions;
+
+async function runAction<Input, Output, AuthUser>(
+    { outputSchema, ...config }: ActionConfig<Input, Output, AuthUser>,
+    input?: Input | FormData,
+): Promise<ActionFunctionResult<Input, Output>> {
+    const response = await runActionWithInput(config, input);
+
+    if (!outputSchema || response.error) {
+        return response;
+    }
+
+    const parsedOutput = outputSchema.safeParse(response.result);
+    if (!parsedOutput.success) {
+        // A result that doesn't match the output schema is a bug of the server, so it's handled like an unexpected error.
+        return {
+            error: handleUnexpectedError(
+                new ActionOutputError(parsedOutput.error),
+                config,
+            ),
+            result: undefined,
+        };
+    }
+
+    return { error: undefined, result: parsedOutput.data };
+}
+
+async function runActionWithInput<Input, Output, AuthUser>(
+    {
+        schema,
+        action,
+        type,
+        auth,
+        authorize,
+        ...errorOptions
+    }: ActionConfig<Input, Output, AuthUser>,
+    input?: Input | FormData,
+): Promise<ActionFunctionResult<Input, Output>> {
+    if (type === "form" && input instanceof FormData) {
+        return execute(
+            decodeFormData(input, schema) as Input,
+            schema!,
+            action as
+                | ActionFunctionNoAuth<Input, Output>
+                | ActionFunctionAuth<Input, Output, AuthUser>,
+            auth,
+            authorize,
+            errorOptions,
+        );
+    } else if (type === "object") {
+        return execute(
+            input as Input,
+            schema!,
+            action as
+                | ActionFunctionNoAuth<Input, Output>
+                | ActionFunctionAuth<Input, Output, AuthUser>,
+            auth,
+            authorize,
+            errorOptions,
+        );
+    } else {
+        return executeNoInput(
+            action as ActionFunctionNoAuthNoInput<Output>,
+            auth,
+            errorOptions,
+        ) as Promise<ActionFunctionResult<Input, Output>>;
+    }
+}
+
+declare const addedContext: unique symbol;
+
+/**
+ * The result of a middleware. It's the result of the action, which also carries the type of the context fields the middleware added via `next`.
+ */
+export type MiddlewareResult<Added extends object> = ActionFunctionResult<
+    unknown,
+    unknown
+> & {
+    readonly [addedContext]?: Added;
+};
+
+/**
+ * A middleware of an action.
+ *
+ * A middleware receives the context of all previous middlewares and calls `next` to continue with the next middleware and finally the action.
+ * The fields passed to `next` are added to the context. The middleware can run code before and after `next`, e.g. for logging.
+ *
+ * To short-circuit, a middleware returns an error (e.g. `{ error: { code: "auth", message: "Feature disabled" } }`) or throws an error instead of calling `next`.
+ */
+export type ActionMiddleware<Context, Added extends object> = (options: {
+    context: Context;
+    next: <A extends object = Record<never, never>>(
+        added?: A,
+    ) => Promise<MiddlewareResult<A>>;
+}) => Promise<MiddlewareResult<Added>>;
+
+/**
+ * A builder to define actions with a chain of middlewares.
+ *
+ * The action receives the context accumulated by all middlewares instead of the user.
+ */
+export type ActionBuilder<Context> = {
+    /**
+     * Adds a middleware to the chain. The middleware runs after all previously added middlewares.
+     */
+    use: <Added extends object>(
+        middleware: ActionMiddleware<Context, Added>,
+    ) => ActionBuilder<Context & Added>;
+    /**
+     * Defines an action that can be called with `FormData`, a plain object or no input. See `defineValidatedAction` for details.
+     */
+    define: {
+        <Input, Output, ParsedOutput = Output>(config: {
+            schema: ZodSchema<Input>;
+            action: (input: Input, context: Context) => Promise<Output>;
+            type: "form";
+            authorize?: Policy<Context, Input>;
+            outputSchema?: ZodType<ParsedOutput, ZodTypeDef, unknown>;
+            exposeErrors?: boolean;
+            isControlFlowError?: ControlFlowErrorDetector;
+            onError?: OnErrorFunction;
+        }): (
+            input: FormData,
+        ) => Promise<ActionFunctionResult<Input, ParsedOutput>>;
+        <Input, Output, ParsedOutput = Output>(config: {
+            schema: ZodSchema<Input>;
+            action: (input: Input, context: Context) => Promise<Output>;
+            type: "object";
+            authorize?: Policy<Context, Input>;
+            outputSchema?: ZodType<ParsedOutput, ZodTypeDef, unknown>;
+            exposeErrors?: boolean;
+            isControlFlowError?: ControlFlowErrorDetector;
+            onError?: OnErrorFunction;
+        }): (
+            input: Input,
+        ) => Promise<ActionFunctionResult<Input, ParsedOutput>>;
+        <Output, ParsedOutput = Output>(config: {
+            action: (context: Context) => Promise<Output>;
+            type: "null";
+            outputSchema?: ZodType<ParsedOutput, ZodTypeDef, unknown>;
+            exposeErrors?: boolean;
+            isControlFlowError?: ControlFlowErrorDetector;
+            onError?: OnErrorFunction;
+        }): () => Promise<ActionFunctionResult<void, ParsedOutput>>;
+    };
+};
+
+/**
+ * Starts a chain of middlewares to define actions with shared logic like tenant resolution, logging or feature checks.
+ *
+ * @param middleware - The first middleware of the chain.
+ * @returns A builder to add further middlewares with `use` and to define actions with `define`.
+ * @example
+ * ```ts
+ * const tenantAction = use(async ({ next }) => {
+ *     const user = await authFunc();
+ *     return next({ user });
+ * }).use(async ({ context, next }) => {
+ *     const tenant = await getTenant(context.user);
+ *     return next({ tenant });
+ * });
+ *
+ * const action = tenantAction.define({
+ *     type: "object",
+ *     schema: z.object({ name: z.string() }),
+ *     action: async ({ name }, { user, tenant }) => createProject(tenant, user, name),
+ * });
+ * ```
+ */
+export function use<Added extends object>(
+    middleware: ActionMiddleware<Record<never, never>, Added>,
+): ActionBuilder<Added> {
+    return createActionBuilder<Record<never, never>>([]).use(middleware);
+}
+
+function createActionBuilder<Context>(
+    middlewares: ActionMiddleware<object, object>[],
+): ActionBuilder<Context> {
+    function define<Input, Output>(
+        config: Omit<ActionConfig<Input, Output, Context>, "auth">,
+    ) {
+        return async (
+            input?: Input | FormData,
+        ): Promise<ActionFunctionResult<Input, Output>> => {
+            const run = async (
+                index: number,
+                context: object,
+            ): Promise<ActionFunctionResult<Input, Output>> => {
+                if (index === middlewares.length) {
+                    return runAction(
+                        {
+                            ...config,
+                            auth: () => Promise.resolve(context as Context),
+                        },
+                        input,
+                    );
+                }
+                return middlewares[index]({
+                    context,
+                    next: (added) =>
+                        run(index + 1, { ...context, ...added }) as Promise<
+                            MiddlewareResult<NonNullable<typeof added>>
+                        >,
+                }) as Promise<ActionFunctionResult<Input, Output>>;
+            };
+
+            const { result, error } = await tryCatch(run(0, {}));
+            if (error) {
+                return handleActionResponse<Input, Output>(
+                    undefined,
+                    error,
+                    config,
+                );
+            }
+            return result;
+        };
+    }
+
+    return {
+        use: <Added extends object>(
+            middleware: ActionMiddleware<Context, Added>,
+        ) =>
+            createActionBuilder<Context & Added>([
+                ...middlewares,
+                middleware as unknown as ActionMiddleware<object, object>,
+            ]),
+        define: define as ActionBuilder<Context>["define"],
     };
 }
 
@@ -299,7 +684,7 @@ async function executeNoInput<Output, AuthUser>(
         | ActionFunctionNoAuthNoInput<Output>
         | ActionFunctionAuthNoInput<Output, AuthUser>,
     auth?: AuthFunction<AuthUser>,
-    onError?: (error: Error) => void,
+    errorOptions: ErrorOptions = {},
 ): Promise<ActionFunctionResult<void, Output>> {
     let result;
     let error;
@@ -318,7 +703,7 @@ async function executeNoInput<Output, AuthUser>(
         error = asyncError;
     }
 
-    return handleActionResponse(result as Output, error, onError);
+    return handleActionResponse(result as Output, error, errorOptions);
 }
 
 async function execute<Input, Output, AuthUser>(
@@ -328,7 +713,8 @@ async function execute<Input, Output, AuthUser>(
         | ActionFunctionNoAuth<Input, Output>
         | ActionFunctionAuth<Input, Output, AuthUser>,
     auth?: AuthFunction<AuthUser>,
-    onError?: (error: Error) => void,
+    authorize?: Policy<AuthUser, Input>,
+    errorOptions: ErrorOptions = {},
 ): Promise<ActionFunctionResult<Input, Output>> {
     const parsedInput = schema.safeParse(input);
 
@@ -338,7 +724,15 @@ async function execute<Input, Output, AuthUser>(
         if (auth) {
             const user = await auth();
             const { result: res, error: asyncError } = await tryCatch(
-                action(parsedInput.data, user),
+                async () => {
+                    if (
+                        authorize &&
+                        !(await authorize(user, parsedInput.data))
+                    ) {
+                        throw new ForbiddenError();
+                    }
+                    return action(parsedInput.data, user);
+                },
             );
             result = res;
             error = asyncError;
@@ -352,11 +746,17 @@ async function execute<Input, Output, AuthUser>(
             error = asyncError;
         }
 
-        return handleActionResponse(result as Output, error, onError);
+        return handleActionResponse(result as Output, error, errorOptions);
     }
 
+    const { fieldErrors, formErrors } = parsedInput.error.flatten();
     return {
-        error: { fieldErrors: parsedInput.error.flatten().fieldErrors },
+        error: {
+            code: "validation",
+            fieldErrors,
+            fieldErrorsByPath: toFieldErrorsByPath(parsedInput.error),
+            formErrors,
+        },
         result: undefined,
     } as ActionFunctionResult<Input, Output>;
 }
@@ -364,22 +764,47 @@ async function execute<Input, Output, AuthUser>(
 function handleActionResponse<Input, Output>(
     res: Output | undefined,
     error: Error | null,
-    onError?: (error: Error) => void,
+    errorOptions: ErrorOptions = {},
 ): ActionFunctionResult<Input, Output> {
     if (error) {
-        // Rethrow NEXT_REDIRECT errors to be handled by the Next.js router.
-        // This is a special case where the action results is a redirect.
-        if (error.message.includes("NEXT_REDIRECT")) {
+        // Rethrow control flow errors like redirects to be handled by the framework.
+        const { isControlFlowError = isNextControlFlowError } = errorOptions;
+        if (isControlFlowError(error)) {
             throw error;
         }
 
-        // If an error handler is provided, call it.
-        if (onError) {
-            onError(error);
+        // Denied authorizations, validation errors and conflicts are expected outcomes, not failures of the action.
+        if (error instanceof ForbiddenError) {
+            return {
+                error: {
+                    code: "auth",
+                    forbidden: true,
+                    message: error.message,
+                },
+                result: undefined,
+            };
+        }
+        if (error instanceof ActionValidationError) {
+            return {
+                error: {
+                    code: "validation",
+                    fieldErrors: error.fieldErrors as FieldErrors<Input>,
+                    fieldErrorsByPath:
+                        error.fieldErrors as FieldErrorsByPath<Input>,
+                    formErrors: error.formErrors,
+                },
+                result: undefined,
+            };
+        }
+        if (error instanceof ActionConflictError) {
+            return {
+                error: { code: "conflict", message: error.message },
+                result: undefined,
+            };
         }
 
         return {
-            error: { message: error.message },
+            error: handleUnexpectedError(error, errorOptions),
             result: undefined,
         };
     }
@@ -389,3 +814,27 @@ function handleActionResponse<Input, Output>(
         result: res,
     };
 }
+
+function handleUnexpectedError<Input>(
+    error: Error,
+    {
+        exposeErrors = process.env.NODE_ENV === "development",
+        onError,
+    }: ErrorOptions,
+): ActionError<Input> {
+    const errorId = crypto.randomUUID();
+
+    // If an error handler is provided, call it.
+    if (onError) {
+        onError(error, { errorId });
+    }
+
+    const isPublic =
+        exposeErrors || (error as { expose?: unknown }).expose === true;
+
+    return {
+        code: "unexpected",
+        message: isPublic ? error.message : UNEXPECTED_ERROR_MESSAGE,
+        errorId,
+    };
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+
+import {
+    FieldErrorsByPath,
+    getFieldErrors,
+    hasFieldErrors,
+    toFieldErrorsByPath,
+} from "@/dx/define-validated-action/field-errors";
+
+describe("field errors", () => {
+    const schema = z
+        .object({
+            name: z.string().min(1, "Required"),
+            address: z.object({ city: z.string().min(1, "Required") }),
+            addresses: z.array(
+                z.object({ zip: z.string().length(5, "Invalid zip") }),
+            ),
+        })
+        .refine(() => false, "Form error");
+    type Input = z.infer<typeof schema>;
+
+    const parsed = schema.safeParse({
+        name: "",
+        address: { city: "" },
+        addresses: [{ zip: "10115" }, { zip: "1" }, { zip: "2" }],
+    });
+    const error = {
+        fieldErrorsByPath: toFieldErrorsByPath(parsed.error!),
+    };
+
+    it("should collect the errors by path", () => {
+        expect(error.fieldErrorsByPath).toEqual({
+            name: ["Required"],
+            "address.city": ["Required"],
+            "addresses.1.zip": ["Invalid zip"],
+            "addresses.2.zip": ["Invalid zip"],
+        });
+    });
+
+    it("should return the errors of a field", () => {
+        expect(getFieldErrors(error, "addresses.2.zip")).toEqual([
+            "Invalid zip",
+        ]);
+        expect(getFieldErrors(error, "addresses.0.zip")).toBeUndefined();
+        expect(getFieldErrors(undefined, "name")).toBeUndefined();
+    });
+
+    it("should check for errors of nested fields", () => {
+        expect(hasFieldErrors(error, "addresses.1")).toBe(true);
+        expect(hasFieldErrors(error, "addresses.0")).toBe(false);
+        expect(hasFieldErrors(error, "address")).toBe(true);
+    });
+
+    it("should fail to compile for paths that are not fields", () => {
+        const typed: { fieldErrorsByPath?: FieldErrorsByPath<Input> } = error;
+
+        // @ts-expect-error - street is not a field of the address
+        getFieldErrors(typed, "address.street");
+        // @ts-expect-error - array items are addressed by index
+        getFieldErrors(typed, "addresses.first.zip");
+    });
+});
@@ -0,0 +1,112 @@
+import { ZodError } from "zod";
+
+type Leaf =
+    | string
+    | number
+    | boolean
+    | bigint
+    | symbol
+    | null
+    | undefined
+    | Date
+    | Blob;
+
+/**
+ * Limits the depth of `FieldPath` to keep recursive schemas from exploding the type.
+ */
+type PreviousDepth = [never, 0, 1, 2, 3, 4, 5, 6, 7];
+
+/**
+ * All paths to fields of the input, e.g. `"name"`, `"address.city"` or `"addresses.${number}.zip"`.
+ *
+ * Array items are addressed by their index like in the zod error path.
+ */
+export type FieldPath<T, Depth extends number = 8> = [Depth] extends [never]
+    ? never
+    : T extends Leaf
+      ? never
+      : T extends readonly (infer Item)[]
+        ?
+              | `${number}`
+              | `${number}.${FieldPath<NonNullable<Item>, PreviousDepth[Depth]>}`
+        : T extends object
+          ? {
+                [K in keyof T & string]:
+                    | K
+                    | `${K}.${FieldPath<NonNullable<T[K]>, PreviousDepth[Depth]>}`;
+            }[keyof T & string]
+          : never;
+
+/**
+ * A typesafe representation of all validation errors of the input keyed by the path of the field, e.g. `"addresses.2.zip"`.
+ *
+ * In contrast to `fieldErrors`, errors of nested objects and arrays are kept at the field they belong to.
+ */
+export type FieldErrorsByPath<T> = {
+    [P in FieldPath<T>]?: string[];
+};
+
+/**
+ * Anything that carries field errors by path, e.g. the `error` of an action result.
+ */
+type WithFieldErrorsByPath<T> =
+    | { fieldErrorsByPath?: FieldErrorsByPath<T> }
+    | null
+    | undefined;
+
+/**
+ * Collects the messages of all issues of a zod error by the path of the field.
+ *
+ * Issues without a path belong to the whole input and are not included.
+ *
+ * @param error - The zod error of a failed validation.
+ * @returns The error messages keyed by the path of the field.
+ */
+export function toFieldErrorsByPath<T>(
+    error: ZodError<T>,
+): FieldErrorsByPath<T> {
+    const fieldErrors: Record<string, string[]> = {};
+    for (const issue of error.issues) {
+        if (issue.path.length === 0) {
+            continue;
+        }
+        const path = issue.path.join(".");
+        (fieldErrors[path] ??= []).push(issue.message);
+    }
+    return fieldErrors as FieldErrorsByPath<T>;
+}
+
+/**
+ * Returns the errors of a single field. Fails to compile if the path is not a field of the input.
+ *
+ * @param error - The error of an action result.
+ * @param path - The path of the field, e.g. `"addresses.2.zip"`.
+ * @returns The error messages of the field or `undefined` if the field has no errors.
+ * @example
+ * const [state, action] = useValidatedActionState(saveCustomer);
+ * getFieldErrors(state?.error, `addresses.${index}.zip`); // ["Invalid zip code"]
+ */
+export function getFieldErrors<T>(
+    error: WithFieldErrorsByPath<T>,
+    path: FieldPath<T>,
+): string[] | undefined {
+    return (error?.fieldErrorsByPath as Record<string, string[]> | undefined)?.[
+        path
+    ];
+}
+
+/**
+ * Checks if a field or any of its nested fields has errors, e.g. to highlight a whole fieldset.
+ *
+ * @param error - The error of an action result.
+ * @param path - The path of the field, e.g. `"addresses.2"`.
+ * @returns `true` if the field or a nested field has errors.
+ */
+export function hasFieldErrors<T>(
+    error: WithFieldErrorsByPath<T>,
+    path: FieldPath<T>,
+): boolean {
+    return Object.keys(error?.fieldErrorsByPath ?? {}).some(
+        (key) => key === path || key.startsWith(`${path}.`),
+    );
+}
@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+
+import {
+    ContextError,
+    errorChainToJSON,
+    formatErrorChain,
+    getErrorChain,
+    withContext,
+} from "@/dx/error-context/error-context";
+import { failure, success } from "@/dx/result/result";
+import { tryCatch } from "@/dx/try-catch/try-catch";
+
+describe("withContext", () => {
+    const error = new Error("connect ECONNREFUSED");
+
+    it("should wrap the error of a failed Result", () => {
+        const result = withContext(failure(error), "loading invoice 42", {
+            invoiceId: 42,
+        });
+
+        expect(result.error).toBeInstanceOf(ContextError);
+        expect(result.error?.message).toBe("loading invoice 42");
+        expect(result.error?.cause).toBe(error);
+        expect(result.error?.context).toEqual({ invoiceId: 42 });
+    });
+
+    it("should pass successes through", () => {
+        expect(withContext(success(42), "loading invoice 42")).toEqual(
+            success(42),
+        );
+    });
+
+    it("should work with async Results", async () => {
+        const result = await withContext(
+            tryCatch(Promise.reject(error)),
+            "loading invoice 42",
+        );
+
+        expect(result.error).toBeInstanceOf(ContextError);
+        expect(result.error?.cause).toBe(error);
+    });
+});
+
+describe("error chain", () => {
+    const root = new Error("connect ECONNREFUSED");
+    const customer = new ContextError("fetching customer", root, {
+        customerId: 7,
+    });
+    const invoice = new ContextError("loading invoice 42", customer, {
+        invoiceId: 42,
+    });
+
+    const request: Record<string, unknown> = { id: 1 };
+    request.self = request;
+    const unserializable = new ContextError(
+        "sending request",
+        new Error("fail"),
+        { request, size: BigInt(42) },
+    );
+
+    it("should walk the cause chain", () => {
+        expect(getErrorChain(invoice)).toEqual([invoice, customer, root]);
+    });
+
+    it("should stop at circular causes", () => {
+        const a = new ContextError("a", undefined);
+        const b = new ContextError("b", a);
+        (a as { cause: unknown }).cause = b;
+
+        expect(getErrorChain(a)).toEqual([a, b]);
+    });
+
+    it("should format the chain as a report", () => {
+        expect(formatErrorChain(invoice)).toBe(
+            [
+                'ContextError: loading invoice 42 {"invoiceId":42}',
+                '  caused by: ContextError: fetching customer {"customerId":7}',
+                "  caused by: Error: connect ECONNREFUSED",
+            ].join("\n"),
+        );
+    });
+
+    it("should format circular and BigInt context", () => {
+        expect(formatErrorChain(unserializable)).toBe(
+            [
+                'ContextError: sending request {"request":{"id":1,"self":"[Circular]"},"size":"42"}',
+                "  caused by: Error: fail",
+            ].join("\n"),
+        );
+    });
+
+    it("should convert circular and BigInt context to JSON", () => {
+        const [entry] = errorChainToJSON(unserializable);
+
+        expect(entry.context).toEqual({
+            request: { id: 1, self: "[Circular]" },
+            size: "42",
+        });
+        expect(() =>
+            JSON.stringify(errorChainToJSON(unserializable)),
+        ).not.toThrow();
+    });
+
+    it("should convert the chain to JSON", () => {
+        expect(errorChainToJSON(invoice)).toEqual([
+            {
+                name: "ContextError",
+                message: "loading invoice 42",
+                context: { invoiceId: 42 },
+            },
+            {
+                name: "ContextError",
+                message: "fetching customer",
+                context: { customerId: 7 },
+            },
+            { name: "Error", message: "connect ECONNREFUSED" },
+        ]);
+    });
+
+    it("should include non-Error causes and stack traces", () => {
+        const error = new ContextError("parsing", "unexpected token");
+        const json = errorChainToJSON(error, { stack: true });
+
+        expect(json[0].stack).toBe(error.stack);
+        expect(json[1]).toEqual({
+            name: "string",
+            message: "unexpected token",
+        });
+    });
+});
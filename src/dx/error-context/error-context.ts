@@ -0,0 +1,201 @@
+import { mapError } from "@/dx/result/result";
+import { Result } from "@/dx/try-catch/try-catch";
+
+/**
+ * Structured metadata attached to a `ContextError`.
+ */
+export type ErrorContext = Record<string, unknown>;
+
+/**
+ * An error that describes which step failed. The original error is kept as `cause`.
+ */
+export class ContextError extends Error {
+    readonly cause: unknown;
+
+    constructor(
+        message: string,
+        cause: unknown,
+        public readonly context: ErrorContext = {},
+    ) {
+        super(message);
+        this.name = "ContextError";
+        this.cause = cause;
+    }
+}
+
+/**
+ * A single error of a cause chain in a JSON friendly structure.
+ */
+export type ErrorChainEntry = {
+    name: string;
+    message: string;
+    context?: ErrorContext;
+    stack?: string;
+};
+
+/**
+ * Wraps the error of a failed Result in a `ContextError` which describes the failed step. Successes are passed through unchanged.
+ *
+ * Accepts both a Result and a promise of a Result. If a promise is passed, a promise is returned.
+ *
+ * @param result - The Result to add context to.
+ * @param message - A description of the failed step.
+ * @param context - Structured metadata for logs.
+ * @returns The original success or a failure with a `ContextError`.
+ * @example
+ * const result = await withContext(tryCatch(getInvoice(42)), "loading invoice 42", { invoiceId: 42 });
+ * console.log(formatErrorChain(result.error));
+ * // ContextError: loading invoice 42 {"invoiceId":42}
+ * //   caused by: Error: connect ECONNREFUSED
+ */
+export function withContext<T, E>(
+    result: Result<T, E>,
+    message: string,
+    context?: ErrorContext,
+): Result<T, ContextError>;
+export function withContext<T, E>(
+    result: PromiseLike<Result<T, E>>,
+    message: string,
+    context?: ErrorContext,
+): Promise<Result<T, ContextError>>;
+export function withContext<T, E>(
+    result: Result<T, E> | PromiseLike<Result<T, E>>,
+    message: string,
+    context?: ErrorContext,
+): Result<T, ContextError> | Promise<Result<T, ContextError>> {
+    const wrap = (error: E) => new ContextError(message, error, context);
+
+    // mapError handles both Results and promises at runtime, only its overloads are split.
+    return (
+        mapError as (
+            result: Result<T, E> | PromiseLike<Result<T, E>>,
+            fn: (error: E) => ContextError,
+        ) => Result<T, ContextError> | Promise<Result<T, ContextError>>
+    )(result, wrap);
+}
+
+/**
+ * Walks the `cause` chain of an error, starting with the error itself.
+ *
+ * Circular chains are stopped at the first repeated error.
+ *
+ * @param error - The error to start with.
+ * @returns All errors of the chain in order.
+ */
+export function getErrorChain(error: unknown): unknown[] {
+    const chain: unknown[] = [];
+    let current: unknown = error;
+
+    while (current !== undefined && !chain.includes(current)) {
+        chain.push(current);
+        current =
+            current instanceof Error
+                ? (current as Error & { cause?: unknown }).cause
+                : undefined;
+    }
+
+    return chain;
+}
+
+/**
+ * Converts the `cause` chain of an error into a JSON friendly structure for logs.
+ *
+ * @param error - The error to convert.
+ * @param options - Set `stack` to include the stack trace of every error.
+ * @returns An entry for every error of the chain, starting with the error itself.
+ * @example
+ * logger.error({ errors: errorChainToJSON(result.error) });
+ * // [{ name: "ContextError", message: "loading invoice 42", context: { invoiceId: 42 } }, { name: "Error", message: "connect ECONNREFUSED" }]
+ */
+export function errorChainToJSON(
+    error: unknown,
+    options: { stack?: boolean } = {},
+): ErrorChainEntry[] {
+    return getErrorChain(error).map((entry) => {
+        if (!(entry instanceof Error)) {
+            return { name: typeof entry, message: String(entry) };
+        }
+
+        return {
+            name: entry.name,
+            message: entry.message,
+            ...(entry instanceof ContextError && {
+                context: toJsonSafe(entry.context),
+            }),
+            ...(options.stack && entry.stack && { stack: entry.stack }),
+        };
+    });
+}
+
+/**
+ * Formats the `cause` chain of an error into a readable multi-line report.
+ *
+ * @param error - The error to format.
+ * @param options - Set `stack` to include the stack trace of every error.
+ * @returns A report with one line per error of the chain.
+ * @example
+ * console.log(formatErrorChain(result.error));
+ * // ContextError: loading invoice 42 {"invoiceId":42}
+ * //   caused by: ContextError: fetching customer {"customerId":7}
+ * //   caused by: Error: connect ECONNREFUSED
+ */
+export function formatErrorChain(
+    error: unknown,
+    options: { stack?: boolean } = {},
+): string {
+    return errorChainToJSON(error, options)
+        .map((entry, index) => {
+            const prefix = index === 0 ? "" : "  caused by: ";
+            const context =
+                entry.context && Object.keys(entry.context).length > 0
+                    ? ` ${JSON.stringify(entry.context)}`
+                    : "";
+            const stack = entry.stack ? `\n${entry.stack}` : "";
+            return `${prefix}${entry.name}: ${entry.message}${context}${stack}`;
+        })
+        .join("\n");
+}
+
+/**
+ * Converts the context of an error into values that can be stringified without throwing, so logging the error never fails itself.
+ * BigInts are converted to strings, circular references are replaced with `"[Circular]"` and other values that can't be stringified with `"[Unserializable]"`.
+ */
+function toJsonSafe(context: ErrorContext): ErrorContext {
+    const safe: ErrorContext = {};
+
+    for (const [key, value] of Object.entries(context)) {
+        try {
+            const json = JSON.stringify(value, createSafeReplacer());
+            safe[key] = json === undefined ? undefined : JSON.parse(json);
+        } catch {
+            safe[key] = "[Unserializable]";
+        }
+    }
+
+    return safe;
+}
+
+function createSafeReplacer(): (key: string, value: unknown) => unknown {
+    const ancestors: unknown[] = [];
+
+    return function (this: unknown, _key, value) {
+        if (typeof value === "bigint") {
+            return value.toString();
+        }
+        if (typeof value !== "object" || value === null) {
+            return value;
+        }
+        // `this` is the object that contains the value, so everything after it in the stack is not an ancestor anymore.
+        while (
+            ancestors.length > 0 &&
+            ancestors[ancestors.length - 1] !== this
+        ) {
+            ancestors.pop();
+        }
+        if (ancestors.includes(value)) {
+            return "[Circular]";
+        }
+        ancestors.push(value);
+        return value;
+    };
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+
+import defineLiteralCodec, {
+    UnmappedValueError,
+} from "@/dx/literal-codec/literal-codec";
+import { safeStringLiteral } from "@/dx/safe-string-literal/safe-string-literal";
+
+describe("defineLiteralCodec", () => {
+    const Status = safeStringLiteral("open", "in_progress", "done");
+    const StatusCodec = defineLiteralCodec(Status, {
+        db: { open: 1, in_progress: 2, done: 3 },
+        partner: { open: "OPEN", in_progress: "IN_PROGRESS", done: "DONE" },
+    });
+
+    it("should encode literal values", () => {
+        const db: 2 = StatusCodec.db.encode("in_progress");
+        const partner: "DONE" = StatusCodec.partner.encode("done");
+
+        expect(db).toBe(2);
+        expect(partner).toBe("DONE");
+    });
+
+    it("should decode external values", () => {
+        expect(StatusCodec.db.decode(3)).toBe("done");
+        expect(StatusCodec.partner.decode("IN_PROGRESS")).toBe("in_progress");
+    });
+
+    it("should fail on unmapped values", () => {
+        expect(() => StatusCodec.db.decode(4)).toThrow(UnmappedValueError);
+        expect(() => StatusCodec.partner.decode("open")).toThrow(
+            "Unmapped value for partner: open",
+        );
+        expect(() =>
+            StatusCodec.db.encode("cancelled" as typeof Status.type),
+        ).toThrow("Unmapped value for db: cancelled");
+    });
+
+    it("should check if an external value is mapped", () => {
+        expect(StatusCodec.db.isMapped(1)).toBe(true);
+        expect(StatusCodec.db.isMapped("1")).toBe(false);
+    });
+
+    it("should fail to compile if a literal value has no mapping", () => {
+        expect(() =>
+            defineLiteralCodec(Status, {
+                // @ts-expect-error - done has no mapping
+                db: { open: 1, in_progress: 2 },
+            }),
+        ).toThrow("Unmapped value for db: done");
+    });
+
+    it("should throw if a mapping is ambiguous", () => {
+        expect(() =>
+            defineLiteralCodec(Status, {
+                db: { open: 1, in_progress: 1, done: 2 },
+            }),
+        ).toThrow(
+            'Ambiguous mapping for db: 1 is mapped to "open" and "in_progress"',
+        );
+    });
+});
@@ -0,0 +1,124 @@
+import { safeStringLiteral } from "@/dx/safe-string-literal/safe-string-literal";
+
+/**
+ * A value of an external representation, e.g. a database column or a field of a partner API.
+ */
+export type WireValue = string | number;
+
+/**
+ * The mappings of every literal value to every external representation, keyed by the name of the representation.
+ */
+export type CodecMappings<V extends string> = Record<
+    string,
+    { [K in V]: WireValue }
+>;
+
+/**
+ * Converts between literal values and a single external representation.
+ */
+export type LiteralCodecRepresentation<
+    V extends string,
+    Mapping extends { [K in V]: WireValue },
+> = {
+    /**
+     * Converts a literal value into the external value.
+     */
+    encode: <K extends V>(value: K) => Mapping[K];
+    /**
+     * Converts an external value into the literal value.
+     *
+     * @throws UnmappedValueError if the external value is not mapped.
+     */
+    decode: (wire: WireValue) => V;
+    /**
+     * Checks if an external value is mapped.
+     */
+    isMapped: (wire: WireValue) => wire is Mapping[V];
+};
+
+/**
+ * Type definition for a literal codec. Contains a converter for every external representation.
+ */
+export type LiteralCodec<V extends string, M extends CodecMappings<V>> = {
+    [R in keyof M]: LiteralCodecRepresentation<V, M[R]>;
+};
+
+/**
+ * The error thrown if a value has no mapping in a representation.
+ */
+export class UnmappedValueError extends Error {
+    constructor(
+        public readonly representation: string,
+        public readonly value: WireValue,
+    ) {
+        super(`Unmapped value for ${representation}: ${value}`);
+        this.name = "UnmappedValueError";
+    }
+}
+
+/**
+ * Creates a bidirectional mapping between the values of a string literal type and one or more external representations.
+ *
+ * Every mapping is type-checked to contain every literal value. Mappings must be unique per representation, so decoding is unambiguous.
+ *
+ * @param literal - The string literal type created with `safeStringLiteral`.
+ * @param mappings - The external value of every literal value, keyed by the name of the representation.
+ * @returns A codec with `encode` and `decode` for every representation.
+ * @example
+ * const Status = safeStringLiteral("open", "in_progress", "done");
+ * const StatusCodec = defineLiteralCodec(Status, {
+ *     db: { open: 1, in_progress: 2, done: 3 },
+ *     partner: { open: "OPEN", in_progress: "IN_PROGRESS", done: "DONE" },
+ * });
+ *
+ * StatusCodec.db.encode("in_progress"); // 2
+ * StatusCodec.db.decode(3); // "done"
+ * StatusCodec.partner.decode("IN_PROGRESS"); // "in_progress"
+ * StatusCodec.partner.decode("CANCELLED"); // UnmappedValueError: Unmapped value for partner: CANCELLED
+ */
+export default function defineLiteralCodec<
+    T extends readonly string[],
+    const M extends CodecMappings<T[number]>,
+>(literal: safeStringLiteral<T>, mappings: M): LiteralCodec<T[number], M> {
+    type Value = T[number];
+
+    const codec = {} as Record<
+        string,
+        LiteralCodecRepresentation<Value, { [K in Value]: WireValue }>
+    >;
+
+    for (const [representation, mapping] of Object.entries(mappings)) {
+        const decodeLookup = new Map<WireValue, Value>();
+        for (const value of literal.values as readonly Value[]) {
+            const wire = mapping[value];
+            if (wire === undefined) {
+                throw new UnmappedValueError(representation, value);
+            }
+            if (decodeLookup.has(wire)) {
+                throw new Error(
+                    `Ambiguous mapping for ${representation}: ${wire} is mapped to "${decodeLookup.get(wire)}" and "${value}"`,
+                );
+            }
+            decodeLookup.set(wire, value);
+        }
+
+        codec[representation] = {
+            encode: (value) => {
+                if (!literal.isLiteral(value)) {
+                    throw new UnmappedValueError(representation, value);
+                }
+                return mapping[value];
+            },
+            decode: (wire) => {
+                const value = decodeLookup.get(wire);
+                if (value === undefined) {
+                    throw new UnmappedValueError(representation, wire);
+                }
+                return value;
+            },
+            isMapped: (wire): wire is WireValue => decodeLookup.has(wire),
+        };
+    }
+
+    return codec as LiteralCodec<Value, M>;
+}
@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+
+import {
+    toJsonSchema,
+    toOpenApiComponent,
+    toSqlCheck,
+    toSqlEnum,
+    toTypeScript,
+} from "@/dx/literal-export/literal-export";
+import {
+    safeStringLiteral,
+    safeStringLiteralWithMeta,
+} from "@/dx/safe-string-literal/safe-string-literal";
+
+describe("literal export", () => {
+    const Status = safeStringLiteral("open", "in_progress", "closed");
+    const Priority = safeStringLiteralWithMeta(["low", "high"], {
+        low: { label: "Low" },
+        high: { label: "High", description: "Handled first" },
+    });
+
+    describe("toJsonSchema", () => {
+        it("should create an enum schema", () => {
+            expect(toJsonSchema(Status, { title: "Status" })).toEqual({
+                type: "string",
+                enum: ["open", "in_progress", "closed"],
+                title: "Status",
+            });
+        });
+
+        it("should include labels and descriptions of the metadata", () => {
+            expect(toJsonSchema(Priority)).toEqual({
+                type: "string",
+                enum: ["low", "high"],
+                "x-enumNames": ["Low", "High"],
+                "x-enumDescriptions": ["", "Handled first"],
+            });
+        });
+    });
+
+    describe("toOpenApiComponent", () => {
+        it("should create a named schema component", () => {
+            expect(
+                toOpenApiComponent(Status, "Status", {
+                    description: "The status of a ticket",
+                }),
+            ).toEqual({
+                Status: {
+                    type: "string",
+                    enum: ["open", "in_progress", "closed"],
+                    description: "The status of a ticket",
+                },
+            });
+        });
+    });
+
+    describe("SQL", () => {
+        it("should create a CHECK constraint", () => {
+            expect(toSqlCheck(Status, "status")).toBe(
+                `CHECK ("status" IN ('open', 'in_progress', 'closed'))`,
+            );
+            expect(
+                toSqlCheck(Status, "status", {
+                    constraintName: "tickets_status_check",
+                }),
+            ).toBe(
+                `CONSTRAINT "tickets_status_check" CHECK ("status" IN ('open', 'in_progress', 'closed'))`,
+            );
+        });
+
+        it("should create an enum type", () => {
+            expect(toSqlEnum(Status, "ticket_status")).toBe(
+                `CREATE TYPE "ticket_status" AS ENUM ('open', 'in_progress', 'closed');`,
+            );
+        });
+
+        it("should escape quotes", () => {
+            const Quoted = safeStringLiteral("it's");
+            expect(toSqlCheck(Quoted, 'my"column')).toBe(
+                `CHECK ("my""column" IN ('it''s'))`,
+            );
+        });
+    });
+
+    describe("toTypeScript", () => {
+        it("should create a type declaration", () => {
+            expect(toTypeScript(Status, "Status")).toBe(
+                'export type Status = "open" | "in_progress" | "closed";',
+            );
+        });
+
+        it("should document the metadata", () => {
+            expect(toTypeScript(Priority, "Priority")).toBe(
+                [
+                    "/**",
+                    ' * - "low": Low',
+                    ' * - "high": High - Handled first',
+                    " */",
+                    'export type Priority = "low" | "high";',
+                ].join("\n"),
+            );
+        });
+    });
+});
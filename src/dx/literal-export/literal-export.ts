@@ -0,0 +1,157 @@
+import {
+    LiteralMeta,
+    safeStringLiteral,
+    safeStringLiteralWithMeta,
+} from "@/dx/safe-string-literal/safe-string-literal";
+
+type ExportableLiteral<T extends readonly string[]> =
+    | safeStringLiteral<T>
+    | safeStringLiteralWithMeta<T, LiteralMeta>;
+
+/**
+ * A JSON Schema for a string enum.
+ *
+ * If the literal type has metadata, the labels and descriptions of the values are added as `x-enumNames` and `x-enumDescriptions`.
+ */
+export type EnumSchema<V extends string> = {
+    type: "string";
+    enum: V[];
+    title?: string;
+    description?: string;
+    "x-enumNames"?: string[];
+    "x-enumDescriptions"?: string[];
+};
+
+/**
+ * Converts a string literal type into a JSON Schema `enum`.
+ *
+ * @param literal - The string literal type created with `safeStringLiteral` or `safeStringLiteralWithMeta`.
+ * @param options - An optional title and description of the schema.
+ * @returns A JSON Schema for the values of the literal type.
+ * @example
+ * const Status = safeStringLiteral("open", "closed");
+ * toJsonSchema(Status, { title: "Status" }); // { type: "string", enum: ["open", "closed"], title: "Status" }
+ */
+export function toJsonSchema<T extends readonly string[]>(
+    literal: ExportableLiteral<T>,
+    options: { title?: string; description?: string } = {},
+): EnumSchema<T[number]> {
+    const values = [...literal.values] as T[number][];
+    const schema: EnumSchema<T[number]> = {
+        type: "string",
+        enum: values,
+        ...options,
+    };
+
+    if ("meta" in literal) {
+        schema["x-enumNames"] = values.map((value) => literal.label(value));
+        if (values.some((value) => literal.description(value))) {
+            schema["x-enumDescriptions"] = values.map(
+                (value) => literal.description(value) ?? "",
+            );
+        }
+    }
+
+    return schema;
+}
+
+/**
+ * Converts a string literal type into an OpenAPI schema component.
+ *
+ * @param literal - The string literal type created with `safeStringLiteral` or `safeStringLiteralWithMeta`.
+ * @param name - The name of the component.
+ * @param options - An optional description of the component.
+ * @returns An object that can be merged into `components.schemas` of an OpenAPI document.
+ * @example
+ * const Status = safeStringLiteral("open", "closed");
+ * toOpenApiComponent(Status, "Status"); // { Status: { type: "string", enum: ["open", "closed"] } }
+ */
+export function toOpenApiComponent<
+    T extends readonly string[],
+    N extends string,
+>(
+    literal: ExportableLiteral<T>,
+    name: N,
+    options: { description?: string } = {},
+): { [K in N]: EnumSchema<T[number]> } {
+    return { [name]: toJsonSchema(literal, options) } as {
+        [K in N]: EnumSchema<T[number]>;
+    };
+}
+
+/**
+ * Converts a string literal type into a SQL `CHECK` constraint.
+ *
+ * @param literal - The string literal type created with `safeStringLiteral`.
+ * @param column - The name of the column.
+ * @param options - An optional name of the constraint.
+ * @returns A SQL snippet which can be used in `CREATE TABLE` or `ALTER TABLE` statements.
+ * @example
+ * const Status = safeStringLiteral("open", "closed");
+ * toSqlCheck(Status, "status"); // CHECK ("status" IN ('open', 'closed'))
+ * toSqlCheck(Status, "status", { constraintName: "tickets_status_check" }); // CONSTRAINT "tickets_status_check" CHECK ("status" IN ('open', 'closed'))
+ */
+export function toSqlCheck<T extends readonly string[]>(
+    literal: ExportableLiteral<T>,
+    column: string,
+    options: { constraintName?: string } = {},
+): string {
+    const check = `CHECK (${quoteIdentifier(column)} IN (${literal.values.map(quoteString).join(", ")}))`;
+    return options.constraintName
+        ? `CONSTRAINT ${quoteIdentifier(options.constraintName)} ${check}`
+        : check;
+}
+
+/**
+ * Converts a string literal type into a SQL `CREATE TYPE ... AS ENUM` statement.
+ *
+ * @param literal - The string literal type created with `safeStringLiteral`.
+ * @param typeName - The name of the enum type.
+ * @returns A SQL statement which creates the enum type.
+ * @example
+ * const Status = safeStringLiteral("open", "closed");
+ * toSqlEnum(Status, "ticket_status"); // CREATE TYPE "ticket_status" AS ENUM ('open', 'closed');
+ */
+export function toSqlEnum<T extends readonly string[]>(
+    literal: ExportableLiteral<T>,
+    typeName: string,
+): string {
+    return `CREATE TYPE ${quoteIdentifier(typeName)} AS ENUM (${literal.values.map(quoteString).join(", ")});`;
+}
+
+/**
+ * Converts a string literal type into a TypeScript type declaration, e.g. for code generation.
+ *
+ * If the literal type has metadata, the labels and descriptions are added as doc comment.
+ *
+ * @param literal - The string literal type created with `safeStringLiteral` or `safeStringLiteralWithMeta`.
+ * @param typeName - The name of the type.
+ * @returns A TypeScript type declaration.
+ * @example
+ * const Status = safeStringLiteral("open", "closed");
+ * toTypeScript(Status, "Status"); // export type Status = "open" | "closed";
+ */
+export function toTypeScript<T extends readonly string[]>(
+    literal: ExportableLiteral<T>,
+    typeName: string,
+): string {
+    const declaration = `export type ${typeName} = ${literal.values.map((value) => JSON.stringify(value)).join(" | ")};`;
+
+    if (!("meta" in literal)) {
+        return declaration;
+    }
+
+    const lines = literal.values.map((value: T[number]) => {
+        const description = literal.description(value);
+        return ` * - ${JSON.stringify(value)}: ${literal.label(value)}${description ? ` - ${description}` : ""}`;
+    });
+    return ["/**", ...lines, " */", declaration].join("\n");
+}
+
+function quoteString(value: string): string {
+    return `'${value.replace(/'/g, "''")}'`;
+}
+
+function quoteIdentifier(identifier: string): string {
+    return `"${identifier.replace(/"/g, '""')}"`;
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+
+import { allOf, anyOf, hasRole, isOwner } from "@/dx/policy/policy";
+
+type User = { id: string; role: "admin" | "editor" | "viewer" };
+type Input = { ownerId?: string };
+
+describe("policy", () => {
+    const admin: User = { id: "1", role: "admin" };
+    const editor: User = { id: "2", role: "editor" };
+    const viewer: User = { id: "3", role: "viewer" };
+
+    describe("hasRole", () => {
+        it("should allow users with one of the roles", async () => {
+            const canPublish = hasRole("admin", "editor");
+
+            expect(await canPublish(admin, {})).toBe(true);
+            expect(await canPublish(viewer, {})).toBe(false);
+        });
+
+        it("should support users with multiple roles", async () => {
+            const canPublish = hasRole("editor");
+
+            expect(await canPublish({ roles: ["viewer", "editor"] }, {})).toBe(
+                true,
+            );
+            expect(await canPublish({ roles: [] }, {})).toBe(false);
+        });
+    });
+
+    describe("isOwner", () => {
+        it("should allow the owner of a resource", async () => {
+            const canEdit = isOwner(async (input: Input) => input.ownerId);
+
+            expect(await canEdit(editor, { ownerId: "2" })).toBe(true);
+            expect(await canEdit(editor, { ownerId: "1" })).toBe(false);
+            expect(await canEdit({ id: undefined }, {})).toBe(false);
+        });
+    });
+
+    describe("combinators", () => {
+        const isAdmin = hasRole("admin");
+        const ownsResource = isOwner((input: Input) => input.ownerId);
+
+        it("should allow if all policies allow with allOf", async () => {
+            const policy = allOf<User, Input>(isAdmin, ownsResource);
+
+            expect(await policy(admin, { ownerId: "1" })).toBe(true);
+            expect(await policy(admin, { ownerId: "2" })).toBe(false);
+        });
+
+        it("should allow if any policy allows with anyOf", async () => {
+            const policy = anyOf<User, Input>(isAdmin, ownsResource);
+
+            expect(await policy(admin, { ownerId: "2" })).toBe(true);
+            expect(await policy(editor, { ownerId: "2" })).toBe(true);
+            expect(await policy(editor, { ownerId: "1" })).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,101 @@
+/**
+ * A policy decides if a user is allowed to perform an operation with the given input.
+ *
+ * Policies can be used as `authorize` hook of `defineValidatedAction` and `defineDataAccessFunction`.
+ */
+export type Policy<User, Input> = (
+    user: User,
+    input: Input,
+) => boolean | Promise<boolean>;
+
+/**
+ * The error used if a policy denies an operation.
+ */
+export class ForbiddenError extends Error {
+    constructor(message = "Forbidden") {
+        super(message);
+        this.name = "ForbiddenError";
+    }
+}
+
+/**
+ * Creates a policy that allows users with one of the given roles.
+ *
+ * The user either has a single `role` or a list of `roles`.
+ *
+ * @param roles - The allowed roles.
+ * @returns A policy that checks the role of the user.
+ * @example
+ * const canPublish = hasRole("admin", "editor");
+ * await canPublish({ id: "1", role: "editor" }, input); // true
+ */
+export function hasRole(
+    ...roles: string[]
+): Policy<{ role: string } | { roles: readonly string[] }, unknown> {
+    return (user) =>
+        "roles" in user
+            ? user.roles.some((role) => roles.includes(role))
+            : roles.includes(user.role);
+}
+
+/**
+ * Creates a policy that allows the owner of a resource.
+ *
+ * @param getOwnerId - Returns the id of the owner for the input, e.g. by loading the resource from the database.
+ * @returns A policy that compares the id of the owner with the `id` of the user.
+ * @example
+ * const canEditProject = isOwner(async ({ projectId }: { projectId: string }) => {
+ *     const project = await db.project.findUnique({ where: { id: projectId } });
+ *     return project?.ownerId;
+ * });
+ */
+export function isOwner<Input>(
+    getOwnerId: (input: Input) => unknown,
+): Policy<{ id: unknown }, Input> {
+    return async (user, input) => {
+        const ownerId = await getOwnerId(input);
+        return ownerId !== undefined && ownerId === user.id;
+    };
+}
+
+/**
+ * Combines policies. The operation is allowed if all policies allow it.
+ *
+ * @param policies - The policies to combine.
+ * @returns A policy that allows the operation if every policy allows it.
+ * @example
+ * const canArchive = allOf(hasRole("editor"), isOwner(getProjectOwnerId));
+ */
+export function allOf<User, Input>(
+    ...policies: Policy<User, Input>[]
+): Policy<User, Input> {
+    return async (user, input) => {
+        for (const policy of policies) {
+            if (!(await policy(user, input))) {
+                return false;
+            }
+        }
+        return true;
+    };
+}
+
+/**
+ * Combines policies. The operation is allowed if at least one policy allows it.
+ *
+ * @param policies - The policies to combine.
+ * @returns A policy that allows the operation if any policy allows it.
+ * @example
+ * const canEditProject = anyOf(hasRole("admin"), isOwner(getProjectOwnerId));
+ */
+export function anyOf<User, Input>(
+    ...policies: Policy<User, Input>[]
+): Policy<User, Input> {
+    return async (user, input) => {
+        for (const policy of policies) {
+            if (await policy(user, input)) {
+                return true;
+            }
+        }
+        return false;
+    };
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it, vi } from "vitest";
+
+import { bind, resultDo, resultDoAsync } from "@/dx/result-do/result-do";
+import { failure, success } from "@/dx/result/result";
+import { Result, tryCatch } from "@/dx/try-catch/try-catch";
+
+describe("resultDo", () => {
+    class NotFoundError extends Error {}
+    class ForbiddenError extends Error {}
+
+    const getUser = (id: string): Result<{ id: string }, NotFoundError> =>
+        id === "missing"
+            ? failure(new NotFoundError("User not found"))
+            : success({ id });
+
+    const getOrg = (user: { id: string }): Result<string, ForbiddenError> =>
+        user.id === "guest"
+            ? failure(new ForbiddenError("Forbidden"))
+            : success(`org-${user.id}`);
+
+    it("should return the value of the workflow", () => {
+        const result = resultDo(function* () {
+            const user = yield* bind(getUser("1"));
+            const org = yield* bind(getOrg(user));
+            return { user, org };
+        });
+
+        expect(result).toEqual(success({ user: { id: "1" }, org: "org-1" }));
+    });
+
+    it("should stop at the first failure", () => {
+        const getOrgSpy = vi.fn(getOrg);
+        const result: Result<string, NotFoundError | ForbiddenError> = resultDo(
+            function* () {
+                const user = yield* bind(getUser("missing"));
+                return yield* bind(getOrgSpy(user));
+            },
+        );
+
+        expect(result.error).toBeInstanceOf(NotFoundError);
+        expect(getOrgSpy).not.toHaveBeenCalled();
+    });
+
+    it("should run finally blocks when stopped", () => {
+        const cleanup = vi.fn();
+        resultDo(function* () {
+            try {
+                return yield* bind(getUser("missing"));
+            } finally {
+                cleanup();
+            }
+        });
+
+        expect(cleanup).toHaveBeenCalled();
+    });
+});
+
+describe("resultDoAsync", () => {
+    it("should bind promises of Results", async () => {
+        const result = await resultDoAsync(async function* () {
+            const a = yield* bind(tryCatch(Promise.resolve(20)));
+            const b = yield* bind(success(22));
+            return a + b;
+        });
+
+        expect(result).toEqual(success(42));
+    });
+
+    it("should stop at the first failure", async () => {
+        const error = new Error("failed");
+        const next = vi.fn(() => Promise.resolve(1));
+
+        const result = await resultDoAsync(async function* () {
+            yield* bind(tryCatch(Promise.reject(error)));
+            return yield* bind(tryCatch(next()));
+        });
+
+        expect(result).toEqual(failure(error));
+        expect(next).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,111 @@
+import { failure, isOk, success } from "@/dx/result/result";
+import { Failure, Result, isPromiseLike } from "@/dx/try-catch/try-catch";
+
+/**
+ * Unwraps a Result inside a `resultDo` or `resultDoAsync` workflow.
+ *
+ * Use it with `yield*`. The value of a `Success` is returned, a `Failure` stops the whole workflow.
+ * Promises of Results can be bound inside of `resultDoAsync`.
+ *
+ * @param result - The Result or promise of a Result to unwrap.
+ * @returns A generator which returns the value of the Result.
+ * @example
+ * const user = yield* bind(getUser(id)); // User
+ * const org = yield* bind(tryCatch(fetchOrganization(user.organizationId))); // Organization, only in resultDoAsync
+ */
+export function bind<T, E>(
+    result: Result<T, E>,
+): Generator<Failure<E>, T, unknown>;
+export function bind<T, E>(
+    result: PromiseLike<Result<T, E>>,
+): AsyncGenerator<Failure<E>, T, unknown>;
+export function bind<T, E>(
+    result: Result<T, E> | PromiseLike<Result<T, E>>,
+): Generator<Failure<E>, T, unknown> | AsyncGenerator<Failure<E>, T, unknown> {
+    if (isPromiseLike(result)) {
+        return bindAsync(result);
+    }
+    return bindSync(result);
+}
+
+function* bindSync<T, E>(
+    result: Result<T, E>,
+): Generator<Failure<E>, T, unknown> {
+    if (isOk(result)) {
+        return result.result;
+    }
+
+    yield failure(result.error);
+    // The workflow is stopped on the first failure, so the generator is never resumed.
+    throw new Error("A workflow must not be resumed after a failure");
+}
+
+async function* bindAsync<T, E>(
+    result: PromiseLike<Result<T, E>>,
+): AsyncGenerator<Failure<E>, T, unknown> {
+    return yield* bindSync(await result);
+}
+
+/**
+ * Runs a sequential workflow of Results without nested early returns.
+ *
+ * Every Result is unwrapped with `yield* bind(result)`. The workflow stops at the first `Failure` and returns it.
+ * The error type of the returned Result is the union of all error types that were bound.
+ *
+ * Errors thrown inside the workflow are not caught. Use `tryCatch` to turn them into Results first.
+ *
+ * @param fn - A generator function describing the workflow.
+ * @returns A `Success` with the return value of the workflow or the first `Failure`.
+ * @example
+ * const result = resultDo(function* () {
+ *     const config = yield* bind(tryCatch(() => JSON.parse(input)));
+ *     const port = yield* bind(parsePort(config.port));
+ *     return { ...config, port };
+ * });
+ * // Result<Config, Error | InvalidPortError>
+ */
+export function resultDo<F extends Failure<unknown>, T>(
+    fn: () => Generator<F, T, unknown>,
+): Result<T, F["error"]> {
+    const generator = fn();
+    const next = generator.next();
+    if (next.done) {
+        return success(next.value);
+    }
+
+    // Run pending `finally` blocks of the workflow.
+    generator.return(undefined as T);
+    return next.value;
+}
+
+/**
+ * Runs a sequential asynchronous workflow of Results without nested early returns.
+ *
+ * Every Result or promise of a Result is unwrapped with `yield* bind(result)`. The workflow stops at the first `Failure` and returns it.
+ * The error type of the returned Result is the union of all error types that were bound.
+ *
+ * Errors thrown inside the workflow are not caught. Use `tryCatch` to turn them into Results first.
+ *
+ * @param fn - An async generator function describing the workflow.
+ * @returns A Promise containing a `Success` with the return value of the workflow or the first `Failure`.
+ * @example
+ * const result = await resultDoAsync(async function* () {
+ *     const user = yield* bind(tryCatch(getUser(id)));
+ *     const org = yield* bind(tryCatch(getOrganization(user.organizationId)));
+ *     return { user, org };
+ * });
+ * // Result<{ user: User; org: Organization }, Error>
+ */
+export async function resultDoAsync<F extends Failure<unknown>, T>(
+    fn: () => AsyncGenerator<F, T, unknown>,
+): Promise<Result<T, F["error"]>> {
+    const generator = fn();
+    const next = await generator.next();
+    if (next.done) {
+        return success(next.value);
+    }
+
+    // Run pending `finally` blocks of the workflow.
+    await generator.return(undefined as T);
+    return next.value;
+}
@@ -0,0 +1,311 @@
+import { describe, expect, it, vi } from "vitest";
+
+import {
+    AggregateResultError,
+    Result as ResultHelpers,
+    all,
+    allSettled,
+    andThen,
+    any,
+    failure,
+    flatMap,
+    fromNullable,
+    isErr,
+    isOk,
+    map,
+    mapError,
+    match,
+    success,
+    tap,
+    unwrap,
+    unwrapOr,
+} from "@/dx/result/result";
+import { Result, tryCatch } from "@/dx/try-catch/try-catch";
+
+describe("result", () => {
+    const error = new Error("test error");
+    const ok = success(21) as Result<number>;
+    const err = failure(error) as Result<number>;
+
+    describe("isOk / isErr", () => {
+        it("should narrow a successful Result", () => {
+            expect(isOk(ok)).toBe(true);
+            expect(isErr(ok)).toBe(false);
+        });
+
+        it("should narrow a failed Result", () => {
+            expect(isOk(err)).toBe(false);
+            expect(isErr(err)).toBe(true);
+        });
+    });
+
+    describe("map", () => {
+        it("should transform the value of a successful Result", () => {
+            expect(map(ok, (value) => value * 2)).toEqual(success(42));
+        });
+
+        it("should pass failures through", () => {
+            const fn = vi.fn();
+            expect(map(err, fn)).toBe(err);
+            expect(fn).not.toHaveBeenCalled();
+        });
+
+        it("should work with async Results", async () => {
+            const result = await map(
+                tryCatch(Promise.resolve(21)),
+                async (value) => value * 2,
+            );
+            expect(result).toEqual(success(42));
+        });
+    });
+
+    describe("mapError", () => {
+        it("should transform the error of a failed Result", () => {
+            expect(mapError(err, (e) => e.message)).toEqual(
+                failure("test error"),
+            );
+        });
+
+        it("should pass successes through", () => {
+            expect(mapError(ok, (e) => e.message)).toBe(ok);
+        });
+
+        it("should work with async Results", async () => {
+            const result = await mapError(
+                tryCatch(Promise.reject(error)),
+                (e) => e.message,
+            );
+            expect(result).toEqual(failure("test error"));
+        });
+    });
+
+    describe("flatMap", () => {
+        it("should chain Results", () => {
+            const result = flatMap(ok, (value) => success(String(value)));
+            expect(result).toEqual(success("21"));
+        });
+
+        it("should short-circuit on failure", () => {
+            const fn = vi.fn();
+            expect(flatMap(err, fn)).toBe(err);
+            expect(fn).not.toHaveBeenCalled();
+        });
+
+        it("should return the failure of the chained function", () => {
+            const result = flatMap(ok, () => failure("chained"));
+            expect(result).toEqual(failure("chained"));
+        });
+
+        it("should chain async tryCatch calls", async () => {
+            const result = await andThen(
+                tryCatch(Promise.resolve(21)),
+                (value) => tryCatch(Promise.resolve(value * 2)),
+            );
+            expect(result).toEqual(success(42));
+        });
+
+        it("should return a promise if the chained function is async", async () => {
+            const result = flatMap(ok, (value) =>
+                tryCatch(Promise.resolve(value * 2)),
+            );
+            expect(result).toBeInstanceOf(Promise);
+            expect(await result).toEqual(success(42));
+        });
+
+        it("should return a synchronous failure without calling the async function", async () => {
+            const fn = vi.fn(async (value: number) => success(value * 2));
+            const result = flatMap(err, fn);
+            // @ts-expect-error - the result is not always a promise and has to be awaited
+            const chain = () => result.then(() => undefined);
+
+            expect(chain).toThrow(TypeError);
+            expect(await result).toEqual(failure(error));
+            expect(fn).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("unwrap", () => {
+        it("should return the value of a successful Result", () => {
+            expect(unwrap(ok)).toBe(21);
+        });
+
+        it("should throw the error of a failed Result", () => {
+            expect(() => unwrap(err)).toThrow(error);
+        });
+
+        it("should work with async Results", async () => {
+            await expect(unwrap(tryCatch(Promise.resolve(21)))).resolves.toBe(
+                21,
+            );
+            await expect(unwrap(tryCatch(Promise.reject(error)))).rejects.toBe(
+                error,
+            );
+        });
+    });
+
+    describe("unwrapOr", () => {
+        it("should return the value of a successful Result", () => {
+            expect(unwrapOr(ok, 0)).toBe(21);
+        });
+
+        it("should return the fallback of a failed Result", () => {
+            expect(unwrapOr(err, 0)).toBe(0);
+        });
+
+        it("should work with async Results", async () => {
+            expect(await unwrapOr(tryCatch(Promise.reject(error)), 0)).toBe(0);
+        });
+    });
+
+    describe("match", () => {
+        const handlers = {
+            success: (value: number) => `value: ${value}`,
+            failure: (e: Error) => `error: ${e.message}`,
+        };
+
+        it("should call the success handler", () => {
+            expect(match(ok, handlers)).toBe("value: 21");
+        });
+
+        it("should call the failure handler", () => {
+            expect(match(err, handlers)).toBe("error: test error");
+        });
+
+        it("should work with async Results", async () => {
+            expect(await match(tryCatch(Promise.resolve(21)), handlers)).toBe(
+                "value: 21",
+            );
+        });
+    });
+
+    describe("tap", () => {
+        it("should run the side effect and return the original Result", () => {
+            const fn = vi.fn();
+            expect(tap(ok, fn)).toBe(ok);
+            expect(fn).toHaveBeenCalledWith(21);
+        });
+
+        it("should not run the side effect on failure", () => {
+            const fn = vi.fn();
+            expect(tap(err, fn)).toBe(err);
+            expect(fn).not.toHaveBeenCalled();
+        });
+
+        it("should await async side effects", async () => {
+            const calls: number[] = [];
+            const result = await tap(
+                tryCatch(Promise.resolve(21)),
+                async (value) => {
+                    await Promise.resolve();
+                    calls.push(value);
+                },
+            );
+            expect(result).toEqual(success(21));
+            expect(calls).toEqual([21]);
+        });
+    });
+
+    describe("fromNullable", () => {
+        it("should return a success for defined values", () => {
+            expect(fromNullable(0, error)).toEqual(success(0));
+        });
+
+        it("should return a failure for null and undefined", () => {
+            expect(fromNullable(null, error)).toEqual(failure(error));
+            expect(fromNullable(undefined, error)).toEqual(failure(error));
+        });
+
+        it("should create the error lazily", () => {
+            const createError = vi.fn(() => error);
+            expect(fromNullable("value", createError)).toEqual(
+                success("value"),
+            );
+            expect(createError).not.toHaveBeenCalled();
+            expect(fromNullable(null, createError)).toEqual(failure(error));
+        });
+    });
+
+    describe("all", () => {
+        it("should combine a tuple of Results", () => {
+            const result = all([success(1), success("a")]);
+            const values: [number, string] = unwrap(result);
+            expect(values).toEqual([1, "a"]);
+        });
+
+        it("should combine a record of Results", () => {
+            const result = all({ count: success(1), name: success("a") });
+            const values: { count: number; name: string } = unwrap(result);
+            expect(values).toEqual({ count: 1, name: "a" });
+        });
+
+        it("should return the first failure", () => {
+            const result = all([success(1), failure("first"), failure("2")]);
+            expect(result).toEqual(failure("first"));
+        });
+
+        it("should combine async Results", async () => {
+            const result = await all({
+                user: tryCatch(Promise.resolve("user")),
+                count: success(2),
+            });
+            expect(result).toEqual(success({ user: "user", count: 2 }));
+        });
+
+        it("should resolve with the first failure without waiting for pending Results", async () => {
+            const result = await all([
+                tryCatch(new Promise<number>(() => {})),
+                tryCatch(Promise.reject(error)),
+            ]);
+            expect(result).toEqual(failure(error));
+        });
+    });
+
+    describe("allSettled", () => {
+        it("should combine successful Results", () => {
+            const result = allSettled([success(1), success("a")]);
+            expect(result).toEqual(success([1, "a"]));
+        });
+
+        it("should collect all errors", async () => {
+            const result = await allSettled({
+                a: tryCatch(Promise.reject(error)),
+                b: success(1),
+                c: failure("second"),
+            });
+
+            expect(result.error).toBeInstanceOf(AggregateResultError);
+            expect(result.error?.errors).toEqual([error, "second"]);
+        });
+    });
+
+    describe("any", () => {
+        it("should return the first success", () => {
+            const result = any([failure("a"), success(1), success(2)]);
+            expect(result).toEqual(success(1));
+        });
+
+        it("should return an aggregate error if all Results failed", () => {
+            const result = any({ a: failure("a"), b: failure("b") });
+            expect(result.error).toBeInstanceOf(AggregateResultError);
+            expect(result.error?.errors).toEqual(["a", "b"]);
+        });
+
+        it("should resolve with the first async success", async () => {
+            const result = await any([
+                tryCatch(new Promise<number>(() => {})),
+                tryCatch(Promise.reject(error)),
+                tryCatch(Promise.resolve(42)),
+            ]);
+            expect(result).toEqual(success(42));
+        });
+    });
+
+    describe("Result", () => {
+        it("should expose all helpers in a namespace", () => {
+            expect(ResultHelpers.all([success(1)])).toEqual(success([1]));
+            expect(ResultHelpers.map(ok, (value) => value * 2)).toEqual(
+                success(42),
+            );
+        });
+    });
+});
@@ -0,0 +1,546 @@
+import {
+    Result as BaseResult,
+    Failure,
+    Success,
+    isPromiseLike,
+} from "@/dx/try-catch/try-catch";
+
+/**
+ * The Result type returned by `tryCatch`. Re-exported so it can be used together with the `Result` helpers.
+ */
+export type Result<T, E = Error> = BaseResult<T, E>;
+
+type MaybePromise<T> = T | PromiseLike<T>;
+
+type ResultInput = MaybePromise<Result<unknown, unknown>>;
+
+type ResultInputs = readonly ResultInput[] | Record<string, ResultInput>;
+
+type ValuesOf<R extends ResultInputs> = R extends readonly unknown[]
+    ? R[number]
+    : R[keyof R];
+
+type SuccessValue<R> =
+    Extract<Awaited<R>, { error: null }> extends { result: infer T }
+        ? T
+        : never;
+
+type FailureError<R> =
+    Exclude<Awaited<R>, { error: null }> extends { error: infer E } ? E : never;
+
+type SuccessValues<R extends ResultInputs> = {
+    -readonly [K in keyof R]: SuccessValue<R[K]>;
+};
+
+/**
+ * A Result if all inputs are Results, a promise of a Result if at least one input is a promise.
+ */
+type CombinedResult<R extends ResultInputs, T, E> = [
+    Extract<ValuesOf<R>, PromiseLike<unknown>>,
+] extends [never]
+    ? Result<T, E>
+    : Promise<Result<T, E>>;
+
+/**
+ * An error that collects the errors of multiple failed Results.
+ */
+export class AggregateResultError<E = unknown> extends Error {
+    constructor(
+        public readonly errors: E[],
+        message = `${errors.length} Result(s) failed`,
+    ) {
+        super(message);
+        this.name = "AggregateResultError";
+    }
+}
+
+/**
+ * Creates a successful Result.
+ *
+ * @param value - The value of the Result.
+ * @returns A `Success` containing the value.
+ * @example
+ * const result = success(42); // { result: 42, error: null }
+ */
+export function success<T>(value: T): Success<T> {
+    return { result: value, error: null };
+}
+
+/**
+ * Creates a failed Result.
+ *
+ * @param error - The error of the Result.
+ * @returns A `Failure` containing the error.
+ * @example
+ * const result = failure(new Error("Not found")); // { result: null, error: Error: Not found }
+ */
+export function failure<E>(error: E): Failure<E> {
+    return { result: null, error };
+}
+
+/**
+ * Checks if a Result is a `Success`.
+ *
+ * @example
+ * const result = tryCatch(() => JSON.parse(input));
+ * if (isOk(result)) {
+ *     console.log(result.result); // Narrowed to Success
+ * }
+ */
+export function isOk<T, E>(result: Result<T, E>): result is Success<T> {
+    return result.error === null;
+}
+
+/**
+ * Checks if a Result is a `Failure`.
+ *
+ * @example
+ * const result = tryCatch(() => JSON.parse(input));
+ * if (isErr(result)) {
+ *     console.error(result.error); // Narrowed to Failure
+ * }
+ */
+export function isErr<T, E>(result: Result<T, E>): result is Failure<E> {
+    return result.error !== null;
+}
+
+/**
+ * Transforms the value of a successful Result. Failures are passed through unchanged.
+ *
+ * Accepts both a Result and a promise of a Result. If a promise is passed, a promise is returned.
+ *
+ * @param result - The Result to transform.
+ * @param fn - The function applied to the value.
+ * @returns A new Result containing the transformed value or the original error.
+ * @example
+ * const result = map(tryCatch(() => 21), (value) => value * 2); // { result: 42, error: null }
+ * const asyncResult = await map(tryCatch(fetchUser()), (user) => user.email);
+ */
+export function map<T, U, E>(
+    result: Result<T, E>,
+    fn: (value: T) => U,
+): Result<U, E>;
+export function map<T, U, E>(
+    result: PromiseLike<Result<T, E>>,
+    fn: (value: T) => MaybePromise<U>,
+): Promise<Result<U, E>>;
+export function map<T, U, E>(
+    result: MaybePromise<Result<T, E>>,
+    fn: (value: T) => MaybePromise<U>,
+): Result<U, E> | Promise<Result<U, E>> {
+    if (isPromiseLike(result)) {
+        return Promise.resolve(result).then(async (res) =>
+            isOk(res) ? success(await fn(res.result)) : res,
+        );
+    }
+
+    return isOk(result) ? success(fn(result.result) as U) : result;
+}
+
+/**
+ * Transforms the error of a failed Result. Successes are passed through unchanged.
+ *
+ * Accepts both a Result and a promise of a Result. If a promise is passed, a promise is returned.
+ *
+ * @param result - The Result to transform.
+ * @param fn - The function applied to the error.
+ * @returns A new Result containing the original value or the transformed error.
+ * @example
+ * const result = mapError(
+ *     tryCatch(() => JSON.parse(input)),
+ *     (error) => new ParseError(error.message),
+ * );
+ */
+export function mapError<T, E, F>(
+    result: Result<T, E>,
+    fn: (error: E) => F,
+): Result<T, F>;
+export function mapError<T, E, F>(
+    result: PromiseLike<Result<T, E>>,
+    fn: (error: E) => MaybePromise<F>,
+): Promise<Result<T, F>>;
+export function mapError<T, E, F>(
+    result: MaybePromise<Result<T, E>>,
+    fn: (error: E) => MaybePromise<F>,
+): Result<T, F> | Promise<Result<T, F>> {
+    if (isPromiseLike(result)) {
+        return Promise.resolve(result).then(async (res) =>
+            isErr(res) ? failure(await fn(res.error)) : res,
+        );
+    }
+
+    return isErr(result) ? failure(fn(result.error) as F) : result;
+}
+
+/**
+ * Chains a function that returns a Result onto a successful Result. Failures are passed through unchanged.
+ *
+ * Accepts both a Result and a promise of a Result. If a promise is passed or the function returns a promise, a promise is returned.
+ * A synchronous failure is returned as is without calling the function, so chaining an async function onto a synchronous Result has to be awaited.
+ *
+ * @param result - The Result to chain onto.
+ * @param fn - The function applied to the value. It must return a new Result.
+ * @returns The Result returned by `fn` or the original error.
+ * @example
+ * const result = await flatMap(tryCatch(getUser(id)), (user) =>
+ *     tryCatch(getOrganization(user.organizationId)),
+ * );
+ */
+export function flatMap<T, U, E, F>(
+    result: Result<T, E>,
+    fn: (value: T) => Result<U, F>,
+): Result<U, E | F>;
+export function flatMap<T, U, E, F>(
+    result: PromiseLike<Result<T, E>>,
+    fn: (value: T) => MaybePromise<Result<U, F>>,
+): Promise<Result<U, E | F>>;
+export function flatMap<T, U, E, F>(
+    result: Result<T, E>,
+    fn: (value: T) => MaybePromise<Result<U, F>>,
+): MaybePromise<Result<U, E | F>>;
+export function flatMap<T, U, E, F>(
+    result: MaybePromise<Result<T, E>>,
+    fn: (value: T) => MaybePromise<Result<U, F>>,
+): Result<U, E | F> | Promise<Result<U, E | F>> {
+    if (isPromiseLike(result)) {
+        return Promise.resolve(result).then((res) =>
+            isOk(res) ? fn(res.result) : res,
+        );
+    }
+
+    if (isErr(result)) {
+        return result;
+    }
+
+    const next = fn(result.result);
+    return isPromiseLike(next) ? Promise.resolve(next) : next;
+}
+
+/**
+ * Alias for `flatMap`.
+ */
+export const andThen = flatMap;
+
+/**
+ * Returns the value of a successful Result or throws the error of a failed Result.
+ *
+ * Accepts both a Result and a promise of a Result. If a promise is passed, a promise is returned.
+ *
+ * @param result - The Result to unwrap.
+ * @returns The value of the Result.
+ * @throws The error of the Result if it is a `Failure`.
+ * @example
+ * const value = unwrap(tryCatch(() => 42)); // 42
+ * const user = await unwrap(tryCatch(getUser(id))); // Throws if getUser rejects
+ */
+export function unwrap<T, E>(result: Result<T, E>): T;
+export function unwrap<T, E>(result: PromiseLike<Result<T, E>>): Promise<T>;
+export function unwrap<T, E>(
+    result: MaybePromise<Result<T, E>>,
+): T | Promise<T> {
+    if (isPromiseLike(result)) {
+        return Promise.resolve(result).then((res) => unwrap(res));
+    }
+
+    if (isErr(result)) {
+        throw result.error;
+    }
+    return result.result;
+}
+
+/**
+ * Returns the value of a successful Result or the fallback value of a failed Result.
+ *
+ * Accepts both a Result and a promise of a Result. If a promise is passed, a promise is returned.
+ *
+ * @param result - The Result to unwrap.
+ * @param fallback - The value returned if the Result is a `Failure`.
+ * @returns The value of the Result or the fallback.
+ * @example
+ * const value = unwrapOr(tryCatch(() => JSON.parse(input)), {}); // {} if input is invalid JSON
+ */
+export function unwrapOr<T, E, U = T>(result: Result<T, E>, fallback: U): T | U;
+export function unwrapOr<T, E, U = T>(
+    result: PromiseLike<Result<T, E>>,
+    fallback: U,
+): Promise<T | U>;
+export function unwrapOr<T, E, U = T>(
+    result: MaybePromise<Result<T, E>>,
+    fallback: U,
+): T | U | Promise<T | U> {
+    if (isPromiseLike(result)) {
+        return Promise.resolve(result).then((res) => unwrapOr(res, fallback));
+    }
+
+    return isOk(result) ? result.result : fallback;
+}
+
+/**
+ * Handles both cases of a Result and returns the value of the matching handler.
+ *
+ * Accepts both a Result and a promise of a Result. If a promise is passed, a promise is returned.
+ *
+ * @param result - The Result to match.
+ * @param handlers - The handlers for the `success` and `failure` cases.
+ * @returns The value returned by the matching handler.
+ * @example
+ * const message = match(tryCatch(() => JSON.parse(input)), {
+ *     success: (value) => `Parsed ${Object.keys(value).length} keys`,
+ *     failure: (error) => `Invalid JSON: ${error.message}`,
+ * });
+ */
+export function match<T, E, U>(
+    result: Result<T, E>,
+    handlers: { success: (value: T) => U; failure: (error: E) => U },
+): U;
+export function match<T, E, U>(
+    result: PromiseLike<Result<T, E>>,
+    handlers: {
+        success: (value: T) => MaybePromise<U>;
+        failure: (error: E) => MaybePromise<U>;
+    },
+): Promise<U>;
+export function match<T, E, U>(
+    result: MaybePromise<Result<T, E>>,
+    handlers: {
+        success: (value: T) => MaybePromise<U>;
+        failure: (error: E) => MaybePromise<U>;
+    },
+): MaybePromise<U> {
+    if (isPromiseLike(result)) {
+        return Promise.resolve(result).then((res) => match(res, handlers));
+    }
+
+    return isOk(result)
+        ? handlers.success(result.result)
+        : handlers.failure(result.error);
+}
+
+/**
+ * Runs a side effect with the value of a successful Result and returns the original Result.
+ *
+ * Accepts both a Result and a promise of a Result. If a promise is passed, a promise is returned and the side effect is awaited.
+ *
+ * @param result - The Result to tap into.
+ * @param fn - The side effect to run with the value.
+ * @returns The original Result.
+ * @example
+ * const result = tap(tryCatch(() => 42), (value) => console.log(value)); // Logs 42
+ */
+export function tap<T, E>(
+    result: Result<T, E>,
+    fn: (value: T) => void,
+): Result<T, E>;
+export function tap<T, E>(
+    result: PromiseLike<Result<T, E>>,
+    fn: (value: T) => MaybePromise<void>,
+): Promise<Result<T, E>>;
+export function tap<T, E>(
+    result: MaybePromise<Result<T, E>>,
+    fn: (value: T) => MaybePromise<void>,
+): Result<T, E> | Promise<Result<T, E>> {
+    if (isPromiseLike(result)) {
+        return Promise.resolve(result).then(async (res) => {
+            if (isOk(res)) {
+                await fn(res.result);
+            }
+            return res;
+        });
+    }
+
+    if (isOk(result)) {
+        fn(result.result);
+    }
+    return result;
+}
+
+/**
+ * Creates a Result from a value that might be `null` or `undefined`.
+ *
+ * @param value - The value to wrap.
+ * @param error - The error used if the value is `null` or `undefined`. Can be a function to create the error lazily.
+ * @returns A `Success` containing the value or a `Failure` containing the error.
+ * @example
+ * const result = fromNullable(users.find((user) => user.id === id), () => new Error("User not found"));
+ */
+export function fromNullable<T, E>(
+    value: T,
+    error: E | (() => E),
+): Result<NonNullable<T>, E> {
+    if (value === null || value === undefined) {
+        return failure(
+            typeof error === "function" ? (error as () => E)() : error,
+        );
+    }
+    return success(value as NonNullable<T>);
+}
+
+/**
+ * Combines multiple Results into a single Result containing all values. Stops at the first failure.
+ *
+ * Accepts a tuple or a record of Results. The shape and the types of the values are kept.
+ * If at least one of the inputs is a promise, a promise is returned which resolves as soon as the first failure is available.
+ *
+ * @param results - The Results to combine.
+ * @returns A `Success` with all values or the first `Failure`.
+ * @example
+ * const result = await all([tryCatch(getUser(id)), tryCatch(getSettings(id))]);
+ * // Result<[User, Settings], Error>
+ *
+ * const result = await all({ user: tryCatch(getUser(id)), settings: tryCatch(getSettings(id)) });
+ * // Result<{ user: User; settings: Settings }, Error>
+ */
+export function all<const R extends ResultInputs>(
+    results: R,
+): CombinedResult<R, SuccessValues<R>, FailureError<ValuesOf<R>>> {
+    return combine(results, isErr, (settled) =>
+        success(toShape(results, settled)),
+    ) as CombinedResult<R, SuccessValues<R>, FailureError<ValuesOf<R>>>;
+}
+
+/**
+ * Combines multiple Results into a single Result containing all values. Waits for all Results and collects every error.
+ *
+ * Accepts a tuple or a record of Results. The shape and the types of the values are kept.
+ * If at least one of the inputs is a promise, a promise is returned.
+ *
+ * @param results - The Results to combine.
+ * @returns A `Success` with all values or a `Failure` with an `AggregateResultError` containing all errors.
+ * @example
+ * const result = await allSettled([tryCatch(getUser(id)), tryCatch(getSettings(id))]);
+ * if (result.error) {
+ *     console.log(result.error.errors); // All errors in order of the input
+ * }
+ */
+export function allSettled<const R extends ResultInputs>(
+    results: R,
+): CombinedResult<
+    R,
+    SuccessValues<R>,
+    AggregateResultError<FailureError<ValuesOf<R>>>
+> {
+    return combine(
+        results,
+        () => false,
+        (settled) => {
+            const errors = settled.filter(isErr).map((res) => res.error);
+            return errors.length > 0
+                ? failure(new AggregateResultError(errors))
+                : success(toShape(results, settled));
+        },
+    ) as CombinedResult<
+        R,
+        SuccessValues<R>,
+        AggregateResultError<FailureError<ValuesOf<R>>>
+    >;
+}
+
+/**
+ * Returns the first successful Result.
+ *
+ * Accepts a tuple or a record of Results. For synchronous Results the first success in order is returned.
+ * If at least one of the inputs is a promise, a promise is returned which resolves with the first success that is available.
+ *
+ * @param results - The Results to check.
+ * @returns The first `Success` or a `Failure` with an `AggregateResultError` containing all errors.
+ * @example
+ * const result = await any([tryCatch(fetchFromCache(id)), tryCatch(fetchFromApi(id))]);
+ */
+export function any<const R extends ResultInputs>(
+    results: R,
+): CombinedResult<
+    R,
+    SuccessValue<ValuesOf<R>>,
+    AggregateResultError<FailureError<ValuesOf<R>>>
+> {
+    return combine(results, isOk, (settled) =>
+        failure(
+            new AggregateResultError(
+                settled.map((res) => res.error),
+                "All Results failed",
+            ),
+        ),
+    ) as CombinedResult<
+        R,
+        SuccessValue<ValuesOf<R>>,
+        AggregateResultError<FailureError<ValuesOf<R>>>
+    >;
+}
+
+/**
+ * Settles all inputs. Resolves early with the first Result matching `shortCircuit`, otherwise with the Result of `complete`.
+ */
+function combine(
+    results: ResultInputs,
+    shortCircuit: (result: Result<unknown, unknown>) => boolean,
+    complete: (settled: Result<unknown, unknown>[]) => Result<unknown, unknown>,
+): MaybePromise<Result<unknown, unknown>> {
+    const inputs: ResultInput[] = Object.values(results);
+
+    if (!inputs.some((input) => isPromiseLike(input))) {
+        const settled = inputs as Result<unknown, unknown>[];
+        return settled.find(shortCircuit) ?? complete(settled);
+    }
+
+    return new Promise((resolve, reject) => {
+        const settled: Result<unknown, unknown>[] = [];
+        let pending = inputs.length;
+
+        inputs.forEach((input, index) => {
+            Promise.resolve(input).then((result) => {
+                if (shortCircuit(result)) {
+                    resolve(result);
+                    return;
+                }
+
+                settled[index] = result;
+                pending -= 1;
+                if (pending === 0) {
+                    resolve(complete(settled));
+                }
+            }, reject);
+        });
+    });
+}
+
+/**
+ * Puts the values of the settled Results back into the shape of the input.
+ */
+function toShape(
+    results: ResultInputs,
+    settled: Result<unknown, unknown>[],
+): unknown {
+    const values = settled.map((res) => res.result);
+    if (Array.isArray(results)) {
+        return values;
+    }
+
+    const keys = Object.keys(results);
+    return Object.fromEntries(keys.map((key, index) => [key, values[index]]));
+}
+
+/**
+ * All Result helpers in a single namespace.
+ *
+ * @example
+ * const result = await Result.all({ user: tryCatch(getUser(id)), org: tryCatch(getOrg(id)) });
+ * const email = Result.map(result, ({ user }) => user.email);
+ */
+export const Result = {
+    success,
+    failure,
+    isOk,
+    isErr,
+    map,
+    mapError,
+    flatMap,
+    andThen,
+    unwrap,
+    unwrapOr,
+    match,
+    tap,
+    fromNullable,
+    all,
+    allSettled,
+    any,
+};
@@ -0,0 +1,181 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { RetryError, retry } from "@/dx/retry/retry";
+import { AbortError } from "@/dx/try-catch/try-catch";
+
+describe("retry", () => {
+    const sleep = vi.fn<(ms: number, signal?: AbortSignal) => Promise<void>>(
+        () => Promise.resolve(),
+    );
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it("should return the result of the first successful attempt", async () => {
+        const fn = vi
+            .fn()
+            .mockRejectedValueOnce(new Error("first"))
+            .mockResolvedValueOnce(42);
+
+        const result = await retry(fn, { sleep });
+
+        expect(result).toEqual({ result: 42, error: null });
+        expect(fn).toHaveBeenCalledTimes(2);
+        expect(fn).toHaveBeenLastCalledWith({ attempt: 2, signal: undefined });
+    });
+
+    it("should return all attempt errors if every attempt fails", async () => {
+        const errors = [new Error("1"), new Error("2"), new Error("3")];
+        const fn = vi.fn(({ attempt }) => {
+            throw errors[attempt - 1];
+        });
+
+        const result = await retry(fn, { attempts: 3, sleep });
+
+        expect(result.error).toBeInstanceOf(RetryError);
+        expect((result.error as RetryError).errors).toEqual(errors);
+        expect((result.error as RetryError).attempts).toBe(3);
+        expect(result.error?.message).toBe("Failed after 3 attempt(s): 3");
+    });
+
+    it("should wait with exponential backoff", async () => {
+        const onRetry = vi.fn();
+        await retry(() => Promise.reject(new Error("fail")), {
+            attempts: 4,
+            delayMs: 100,
+            sleep,
+            onRetry,
+        });
+
+        expect(sleep.mock.calls.map(([ms]) => ms)).toEqual([100, 200, 400]);
+        expect(onRetry).toHaveBeenCalledTimes(3);
+        expect(onRetry).toHaveBeenLastCalledWith(new Error("fail"), 3, 400);
+    });
+
+    it("should wait with a fixed delay capped at maxDelayMs", async () => {
+        await retry(() => Promise.reject(new Error("fail")), {
+            attempts: 3,
+            backoff: "fixed",
+            delayMs: 500,
+            maxDelayMs: 300,
+            sleep,
+        });
+
+        expect(sleep.mock.calls.map(([ms]) => ms)).toEqual([300, 300]);
+    });
+
+    it("should apply jitter to the delay", async () => {
+        await retry(() => Promise.reject(new Error("fail")), {
+            attempts: 2,
+            delayMs: 100,
+            jitter: true,
+            random: () => 0.5,
+            sleep,
+        });
+
+        expect(sleep).toHaveBeenCalledWith(50, undefined);
+    });
+
+    it("should stop if retryIf returns false", async () => {
+        class NotFoundError extends Error {}
+        const fn = vi.fn(() => Promise.reject(new NotFoundError("missing")));
+
+        const result = await retry(fn, {
+            attempts: 5,
+            retryIf: (error) => !(error instanceof NotFoundError),
+            sleep,
+        });
+
+        expect(fn).toHaveBeenCalledTimes(1);
+        expect((result.error as RetryError).errors).toHaveLength(1);
+    });
+
+    it("should keep the attempt errors if aborted during an attempt", async () => {
+        const controller = new AbortController();
+        const error = new Error("first");
+        const fn = vi.fn(({ attempt }) => {
+            if (attempt === 1) {
+                throw error;
+            }
+            controller.abort();
+            return new Promise(() => {});
+        });
+
+        const result = await retry(fn, { signal: controller.signal, sleep });
+
+        expect(result.error).toBeInstanceOf(AbortError);
+        const cause = (result.error as AbortError).cause;
+        expect(cause).toBeInstanceOf(RetryError);
+        expect((cause as RetryError).errors).toEqual([error]);
+    });
+
+    describe("with the default sleep", () => {
+        beforeEach(() => {
+            vi.useFakeTimers();
+        });
+
+        afterEach(() => {
+            vi.useRealTimers();
+        });
+
+        it("should wait between attempts", async () => {
+            const fn = vi
+                .fn()
+                .mockRejectedValueOnce(new Error("first"))
+                .mockResolvedValueOnce(42);
+
+            const promise = retry(fn, { delayMs: 1000 });
+            await vi.advanceTimersByTimeAsync(999);
+            expect(fn).toHaveBeenCalledTimes(1);
+
+            await vi.advanceTimersByTimeAsync(1);
+            expect(await promise).toEqual({ result: 42, error: null });
+        });
+
+        it("should remove the abort listener after waiting", async () => {
+            const controller = new AbortController();
+            const addListener = vi.spyOn(controller.signal, "addEventListener");
+            const removeListener = vi.spyOn(
+                controller.signal,
+                "removeEventListener",
+            );
+            const fn = vi.fn(() => Promise.reject(new Error("fail")));
+
+            const promise = retry(fn, {
+                attempts: 5,
+                delayMs: 1000,
+                backoff: "fixed",
+                signal: controller.signal,
+            });
+            await vi.runAllTimersAsync();
+            await promise;
+
+            expect(fn).toHaveBeenCalledTimes(5);
+            expect(addListener).toHaveBeenCalled();
+            expect(removeListener).toHaveBeenCalledTimes(
+                addListener.mock.calls.length,
+            );
+        });
+
+        it("should return an AbortError if aborted while waiting", async () => {
+            const controller = new AbortController();
+            const fn = vi.fn(() => Promise.reject(new Error("fail")));
+
+            const promise = retry(fn, {
+                delayMs: 1000,
+                signal: controller.signal,
+            });
+            await vi.advanceTimersByTimeAsync(500);
+            controller.abort();
+
+            const result = await promise;
+            expect(result.error).toBeInstanceOf(AbortError);
+            expect(fn).toHaveBeenCalledTimes(1);
+
+            const cause = (result.error as AbortError).cause;
+            expect(cause).toBeInstanceOf(RetryError);
+            expect((cause as RetryError).errors).toEqual([new Error("fail")]);
+        });
+    });
+});
@@ -0,0 +1,190 @@
+import { AggregateResultError, failure } from "@/dx/result/result";
+import { AbortError, Result, tryCatch } from "@/dx/try-catch/try-catch";
+
+/**
+ * The context passed to every attempt of `retry`.
+ */
+export type RetryContext = {
+    /**
+     * The number of the current attempt, starting at 1.
+     */
+    attempt: number;
+    /**
+     * The signal passed to `retry`. Forward it to e.g. `fetch` to cancel the current attempt.
+     */
+    signal?: AbortSignal;
+};
+
+/**
+ * Options for `retry`.
+ */
+export type RetryOptions = {
+    /**
+     * The maximum number of attempts including the first one. Defaults to 3.
+     */
+    attempts?: number;
+    /**
+     * How the delay between attempts grows. Defaults to `exponential`.
+     *
+     * - `fixed`: Always waits `delayMs`.
+     * - `exponential`: Waits `delayMs * factor ^ (attempt - 1)`, capped at `maxDelayMs`.
+     */
+    backoff?: "fixed" | "exponential";
+    /**
+     * The delay after the first failed attempt in milliseconds. Defaults to 100.
+     */
+    delayMs?: number;
+    /**
+     * The factor used by the `exponential` backoff. Defaults to 2.
+     */
+    factor?: number;
+    /**
+     * The maximum delay between attempts in milliseconds. Defaults to no limit.
+     */
+    maxDelayMs?: number;
+    /**
+     * Randomizes the delay between 0 and the calculated delay to avoid that many clients retry at the same time. Defaults to `false`.
+     */
+    jitter?: boolean;
+    /**
+     * Decides if a failed attempt should be retried. Defaults to retrying every error.
+     */
+    retryIf?: (error: Error, attempt: number) => boolean;
+    /**
+     * Called before waiting for the next attempt. Useful for logging.
+     */
+    onRetry?: (error: Error, attempt: number, delayMs: number) => void;
+    /**
+     * Stops retrying if aborted. The current attempt is abandoned and an `AbortError` is returned.
+     */
+    signal?: AbortSignal;
+    /**
+     * Waits between attempts. Inject a custom function to control time in tests.
+     */
+    sleep?: (ms: number, signal?: AbortSignal) => Promise<void>;
+    /**
+     * Returns a random number between 0 and 1 used for `jitter`. Defaults to `Math.random`.
+     */
+    random?: () => number;
+};
+
+/**
+ * An error that is returned by `retry` if all attempts failed or an error was not retried.
+ *
+ * The errors of all attempts are available in `errors`, in order of the attempts.
+ */
+export class RetryError extends AggregateResultError<Error> {
+    constructor(errors: Error[]) {
+        super(
+            errors,
+            `Failed after ${errors.length} attempt(s): ${errors[errors.length - 1]?.message}`,
+        );
+        this.name = "RetryError";
+    }
+
+    /**
+     * The number of attempts that were made.
+     */
+    get attempts(): number {
+        return this.errors.length;
+    }
+}
+
+/**
+ * Calls a function until it succeeds or the maximum number of attempts is reached.
+ *
+ * Every attempt is wrapped in `tryCatch`, so the function is allowed to throw or reject.
+ *
+ * @param fn - The function to call. Receives the current attempt and the signal.
+ * @param options - The retry policy.
+ * @returns A Promise containing the Result of the first successful attempt, a `RetryError` with the errors of all attempts or an `AbortError` if the signal was aborted.
+ * If attempts failed before the abort, the `cause` of the `AbortError` is a `RetryError` with their errors, otherwise the abort reason.
+ * @example
+ * const result = await retry(({ signal }) => fetch(url, { signal }), {
+ *     attempts: 5,
+ *     backoff: "exponential",
+ *     jitter: true,
+ *     retryIf: (error) => !(error instanceof NotFoundError),
+ *     onRetry: (error, attempt) => console.warn(`Attempt ${attempt} failed`, error),
+ * });
+ * console.log(result); // { result: null, error: RetryError: Failed after 5 attempt(s): ... }
+ */
+export async function retry<T>(
+    fn: (context: RetryContext) => T | PromiseLike<T>,
+    options: RetryOptions = {},
+): Promise<Result<T, RetryError | AbortError>> {
+    const {
+        attempts = 3,
+        retryIf = () => true,
+        onRetry,
+        signal,
+        sleep = defaultSleep,
+    } = options;
+    const errors: Error[] = [];
+
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+        if (signal?.aborted) {
+            return failure(createAbortError(signal.reason, errors));
+        }
+
+        const result = await tryCatch(
+            new Promise<T>((resolve) => resolve(fn({ attempt, signal }))),
+            { signal },
+        );
+        if (!result.error) {
+            return result;
+        }
+        if (result.error instanceof AbortError) {
+            return failure(createAbortError(result.error.cause, errors));
+        }
+
+        errors.push(result.error);
+        if (attempt === attempts || !retryIf(result.error, attempt)) {
+            break;
+        }
+
+        const delayMs = getDelay(attempt, options);
+        onRetry?.(result.error, attempt, delayMs);
+        await sleep(delayMs, signal);
+    }
+
+    return failure(new RetryError(errors));
+}
+
+function createAbortError(reason: unknown, errors: Error[]): AbortError {
+    return new AbortError(errors.length > 0 ? new RetryError(errors) : reason);
+}
+
+function getDelay(attempt: number, options: RetryOptions): number {
+    const {
+        backoff = "exponential",
+        delayMs = 100,
+        factor = 2,
+        maxDelayMs = Infinity,
+        jitter = false,
+        random = Math.random,
+    } = options;
+
+    const delay = Math.min(
+        backoff === "exponential"
+            ? delayMs * Math.pow(factor, attempt - 1)
+            : delayMs,
+        maxDelayMs,
+    );
+    return jitter ? Math.round(random() * delay) : delay;
+}
+
+function defaultSleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+        const onAbort = () => {
+            clearTimeout(timeout);
+            resolve();
+        };
+
+        const timeout = setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener("abort", onAbort, { once: true });
+    });
+}
@@ -1,6 +1,11 @@
 import { describe, expect, it } from "vitest";
 
-import { safeStringLiteral } from "./safe-string-literal";
+import {
+    InvalidLiteralError,
+    safeStringLiteral,
+    safeStringLiteralWithMeta,
+    union,
+} from "./safe-string-literal";
 
 describe("safeStringLiteral", () => {
     // Create a test literal type
@@ -56,6 +61,96 @@ describe("safeStringLiteral", () => {
         });
     });
 
+    describe("InvalidLiteralError", () => {
+        it("should list the allowed values", () => {
+            expect(() => Colors.toLiteral("yellow")).toThrow(
+                new InvalidLiteralError("yellow", ["red", "green", "blue"]),
+            );
+            expect(() => Colors.toLiteral("yellow")).toThrow(
+                "Invalid value: yellow. Allowed values: red, green, blue",
+            );
+        });
+
+        it("should suggest the closest value", () => {
+            const error = (() => {
+                try {
+                    Colors.toLiteral("gren");
+                } catch (error) {
+                    return error as InvalidLiteralError;
+                }
+            })();
+
+            expect(error).toBeInstanceOf(InvalidLiteralError);
+            expect(error?.value).toBe("gren");
+            expect(error?.suggestion).toBe("green");
+            expect(error?.message).toContain('Did you mean "green"?');
+        });
+    });
+
+    describe("withParseOptions", () => {
+        const Status = safeStringLiteral("open", "in_progress", "done");
+
+        it("should trim and ignore the case", () => {
+            const Parser = Status.withParseOptions({
+                trim: true,
+                caseInsensitive: true,
+            });
+
+            expect(Parser.toLiteral(" OPEN ")).toBe("open");
+            expect(() => Status.toLiteral(" OPEN ")).toThrow(
+                InvalidLiteralError,
+            );
+        });
+
+        it("should ignore separators", () => {
+            const Parser = Status.withParseOptions({
+                caseInsensitive: true,
+                ignoreSeparators: true,
+            });
+
+            expect(Parser.toLiterals(["In Progress", "in-progress"])).toEqual([
+                "in_progress",
+                "in_progress",
+            ]);
+            expect(
+                Parser.match("IN PROGRESS", {
+                    in_progress: () => true,
+                    _: () => false,
+                }),
+            ).toBe(true);
+        });
+
+        it("should accept aliases", () => {
+            const Parser = Status.withParseOptions({
+                caseInsensitive: true,
+                aliases: { in_progress: ["wip"], done: ["closed"] },
+            });
+
+            expect(Parser.toLiteral("WIP")).toBe("in_progress");
+            expect(Parser.toLiteral("closed")).toBe("done");
+        });
+
+        it("should keep isLiteral exact", () => {
+            const Parser = Status.withParseOptions({ caseInsensitive: true });
+            expect(Parser.isLiteral("OPEN")).toBe(false);
+        });
+
+        it("should keep the options for derived literal types", () => {
+            const Open = Status.withParseOptions({
+                aliases: { in_progress: ["wip"] },
+            }).exclude("done");
+
+            expect(Open.toLiteral("wip")).toBe("in_progress");
+        });
+
+        it("should throw if values are ambiguous after normalization", () => {
+            const CaseSensitive = safeStringLiteral("Value", "value");
+            expect(() =>
+                CaseSensitive.withParseOptions({ caseInsensitive: true }),
+            ).toThrow('Ambiguous value: "value" matches "Value" and "value"');
+        });
+    });
+
     describe("toLiterals", () => {
         it("should convert an array of valid literals", () => {
             expect(Colors.toLiterals(["red", "blue"])).toEqual(["red", "blue"]);
@@ -72,6 +167,112 @@ describe("safeStringLiteral", () => {
         });
     });
 
+    describe("match", () => {
+        it("should call the handler of the value", () => {
+            const hex = (color: Color) =>
+                Colors.match(color, {
+                    red: () => "#f00",
+                    green: () => "#0f0",
+                    blue: () => "#00f",
+                });
+
+            expect(hex("red")).toBe("#f00");
+            expect(hex("blue")).toBe("#00f");
+        });
+
+        it("should pass the narrowed value to the handler", () => {
+            expect(
+                Colors.match("green", {
+                    red: (value) => value,
+                    _: (value) => value.toUpperCase(),
+                }),
+            ).toBe("GREEN");
+        });
+
+        it("should call the default handler for unhandled values", () => {
+            const isRed = (color: Color) =>
+                Colors.match(color, { red: () => true, _: () => false });
+
+            expect(isRed("red")).toBe(true);
+            expect(isRed("blue")).toBe(false);
+        });
+
+        it("should validate raw strings", () => {
+            expect(() =>
+                Colors.match("yellow", { red: () => true, _: () => false }),
+            ).toThrow("Invalid value: yellow");
+        });
+
+        it("should fail to compile if a value is not handled", () => {
+            expect(() =>
+                // @ts-expect-error - blue is not handled
+                Colors.match("blue", { red: () => 1, green: () => 2 }),
+            ).toThrow();
+        });
+    });
+
+    describe("set algebra", () => {
+        const Status = safeStringLiteral("draft", "published", "archived");
+
+        it("should exclude values", () => {
+            const Active = Status.exclude("archived");
+            const active: (typeof Active.type)[] = ["draft", "published"];
+
+            expect(Active.values).toEqual(active);
+            expect(Active.isLiteral("archived")).toBe(false);
+            expect(() => Active.toLiteral("archived")).toThrow(
+                "Invalid value: archived",
+            );
+            Active.match("draft", {
+                draft: () => 1,
+                published: () => 2,
+                // @ts-expect-error - archived is excluded
+                archived: () => 3,
+            });
+        });
+
+        it("should pick values in the declared order", () => {
+            const Visible = Status.pick("published", "draft");
+            expect(Visible.values).toEqual(["draft", "published"]);
+            expect(Visible.isLiteral("archived")).toBe(false);
+        });
+
+        it("should fail to compile for unknown values", () => {
+            // @ts-expect-error - deleted is not a status
+            Status.exclude("deleted");
+            // @ts-expect-error - deleted is not a status
+            Status.pick("deleted");
+        });
+
+        it("should extend values", () => {
+            const Extended = Status.extend("deleted", "draft");
+            const deleted: typeof Extended.type = "deleted";
+
+            expect(Extended.values).toEqual([
+                "draft",
+                "published",
+                "archived",
+                deleted,
+            ]);
+            expect(Extended.toLiteral("deleted")).toBe("deleted");
+        });
+
+        it("should create a union of two literal types", () => {
+            const PublicRoles = safeStringLiteral("viewer", "editor");
+            const AdminRoles = safeStringLiteral("editor", "admin");
+            const Roles = union(PublicRoles, AdminRoles);
+
+            expect(Roles.values).toEqual(["viewer", "editor", "admin"]);
+            expect(
+                Roles.match("admin", {
+                    viewer: () => 1,
+                    editor: () => 2,
+                    admin: () => 3,
+                }),
+            ).toBe(3);
+        });
+    });
+
     describe("edge cases", () => {
         it("should work with a single literal value", () => {
             const SingleValue = safeStringLiteral("only");
@@ -96,3 +297,86 @@ describe("safeStringLiteral", () => {
         });
     });
 });
+
+describe("safeStringLiteralWithMeta", () => {
+    const Priorities = safeStringLiteralWithMeta(
+        ["low", "high", "medium"],
+        {
+            low: { label: "Low", icon: "arrow-down", order: 0 },
+            medium: {
+                label: "Medium",
+                description: "Default priority",
+                icon: "minus",
+                order: 1,
+            },
+            high: { label: "High", icon: "arrow-up", order: 2 },
+        },
+        { de: { low: "Niedrig", medium: "Mittel" } },
+    );
+
+    it("should keep the safeStringLiteral helpers", () => {
+        expect(Priorities.values).toEqual(["low", "high", "medium"]);
+        expect(Priorities.isLiteral("high")).toBe(true);
+        expect(() => Priorities.toLiteral("urgent")).toThrow(
+            "Invalid value: urgent",
+        );
+    });
+
+    it("should return the metadata of a value", () => {
+        expect(Priorities.meta("high").icon).toBe("arrow-up");
+        expect(Priorities.label("high")).toBe("High");
+        expect(Priorities.description("medium")).toBe("Default priority");
+        expect(Priorities.description("low")).toBeUndefined();
+    });
+
+    it("should return translated labels with a fallback", () => {
+        expect(Priorities.label("low", "de")).toBe("Niedrig");
+        expect(Priorities.label("high", "de")).toBe("High");
+        expect(Priorities.label("low", "fr")).toBe("Low");
+    });
+
+    it("should return the options in the declared order", () => {
+        expect(Priorities.options("de")).toEqual([
+            { value: "low", label: "Niedrig", icon: "arrow-down", order: 0 },
+            {
+                value: "medium",
+                label: "Mittel",
+                description: "Default priority",
+                icon: "minus",
+                order: 1,
+            },
+            { value: "high", label: "High", icon: "arrow-up", order: 2 },
+        ]);
+    });
+
+    it("should compare values by the declared order", () => {
+        const values: (typeof Priorities.type)[] = ["high", "low", "medium"];
+        expect(values.sort(Priorities.compare)).toEqual([
+            "low",
+            "medium",
+            "high",
+        ]);
+    });
+
+    it("should default to the position of the values", () => {
+        const Sizes = safeStringLiteralWithMeta(["s", "m", "l"], {
+            l: { label: "Large" },
+            s: { label: "Small" },
+            m: { label: "Medium" },
+        });
+
+        expect(Sizes.options().map(({ value }) => value)).toEqual([
+            "s",
+            "m",
+            "l",
+        ]);
+    });
+
+    it("should fail to compile if a value has no metadata", () => {
+        safeStringLiteralWithMeta(
+            ["a", "b"],
+            // @ts-expect-error - b has no metadata
+            { a: { label: "A" } },
+        );
+    });
+});
@@ -1,9 +1,81 @@
+/**
+ * Handlers for `match`. Either every literal value has a handler or `_` handles all remaining values.
+ */
+type MatchHandlers<V extends string, R> =
+    | { [K in V]: (value: K) => R }
+    | ({ [K in V]?: (value: K) => R } & { _: (value: V) => R });
+
+/**
+ * Removes all values of `E` from the tuple `T` while keeping the order.
+ */
+type Without<
+    T extends readonly string[],
+    E extends string,
+> = T extends readonly [
+    infer Head extends string,
+    ...infer Rest extends readonly string[],
+]
+    ? Head extends E
+        ? Without<Rest, E>
+        : [Head, ...Without<Rest, E>]
+    : [];
+
+/**
+ * Keeps only the values of `P` in the tuple `T` while keeping the order.
+ */
+type Only<T extends readonly string[], P extends string> = Without<
+    T,
+    Exclude<T[number], P>
+>;
+
+/**
+ * Options for forgiving parsing in `toLiteral`, `toLiterals` and `match`. `isLiteral` always checks the exact value.
+ */
+export type LiteralParseOptions<V extends string> = {
+    /**
+     * Ignores leading and trailing whitespace.
+     */
+    trim?: boolean;
+    /**
+     * Ignores the case of letters.
+     */
+    caseInsensitive?: boolean;
+    /**
+     * Treats whitespace, `_`, `-` and `.` as the same separator, e.g. "in progress", "in-progress" and "in_progress".
+     */
+    ignoreSeparators?: boolean;
+    /**
+     * Alternative input values per literal value. Aliases are normalized with the same options.
+     */
+    aliases?: { [K in V]?: readonly string[] };
+};
+
+/**
+ * The error thrown if a string is not a valid value of the literal type.
+ */
+export class InvalidLiteralError extends Error {
+    constructor(
+        public readonly value: string,
+        public readonly allowedValues: readonly string[],
+        public readonly suggestion?: string,
+    ) {
+        super(
+            `Invalid value: ${value}.` +
+                (suggestion !== undefined
+                    ? ` Did you mean "${suggestion}"?`
+                    : "") +
+                ` Allowed values: ${allowedValues.join(", ")}`,
+        );
+        this.name = "InvalidLiteralError";
+    }
+}
+
 /**
  * Type definition for a safe string literal type.
  *
  * @template T - The array of strings to create a safe string literal type from.
  */
-type safeStringLiteral<T extends readonly string[]> = {
+export type safeStringLiteral<T extends readonly string[]> = {
     /**
      * The array of strings that define the string literal type.
      */
@@ -14,6 +86,8 @@ type safeStringLiteral<T extends readonly string[]> = {
     type: T[number];
     /**
      * Converts a string to the string literal type.
+     *
+     * @throws InvalidLiteralError if the string is not a valid value.
      */
     toLiteral: (value: string) => T[number];
     /**
@@ -24,6 +98,92 @@ type safeStringLiteral<T extends readonly string[]> = {
      * Checks if a string is of the literal type.
      */
     isLiteral: (value: string) => value is T[number];
+    /**
+     * Calls the handler matching the value. Fails to compile if a value has no handler and no `_` default handler is given.
+     * Raw strings are validated with `toLiteral` first.
+     */
+    match: <R>(value: string, handlers: MatchHandlers<T[number], R>) => R;
+    /**
+     * Creates a new string literal type without the given values.
+     */
+    exclude: <const E extends readonly T[number][]>(
+        ...values: E
+    ) => safeStringLiteral<Without<T, E[number]>>;
+    /**
+     * Creates a new string literal type with only the given values. The declared order is kept.
+     */
+    pick: <const P extends readonly T[number][]>(
+        ...values: P
+    ) => safeStringLiteral<Only<T, P[number]>>;
+    /**
+     * Creates a new string literal type with additional values. Values that already exist are ignored.
+     */
+    extend: <const A extends readonly string[]>(
+        ...values: A
+    ) => safeStringLiteral<[...T, ...Without<A, T[number]>]>;
+    /**
+     * Creates a copy of the string literal type with forgiving parsing, e.g. for external data.
+     */
+    withParseOptions: (
+        options: LiteralParseOptions<T[number]>,
+    ) => safeStringLiteral<T>;
+};
+
+/**
+ * Metadata of a single literal value.
+ */
+export type LiteralMeta = {
+    /**
+     * The human readable label of the value.
+     */
+    label: string;
+    /**
+     * An optional longer description of the value, e.g. for tooltips.
+     */
+    description?: string;
+    /**
+     * The sort position of the value. Defaults to the position in the declared values.
+     */
+    order?: number;
+};
+
+/**
+ * An option for select components, containing the value and its metadata.
+ */
+export type LiteralOption<V extends string, M extends LiteralMeta> = M & {
+    value: V;
+};
+
+/**
+ * Type definition for a safe string literal type with metadata for every value.
+ *
+ * @template T - The array of strings to create a safe string literal type from.
+ * @template M - The metadata of a single value.
+ */
+export type safeStringLiteralWithMeta<
+    T extends readonly string[],
+    M extends LiteralMeta,
+> = safeStringLiteral<T> & {
+    /**
+     * Returns the metadata of a value.
+     */
+    meta: (value: T[number]) => M;
+    /**
+     * Returns the label of a value. If a locale is passed and a translation exists, the translated label is returned.
+     */
+    label: (value: T[number], locale?: string) => string;
+    /**
+     * Returns the description of a value.
+     */
+    description: (value: T[number]) => string | undefined;
+    /**
+     * Returns all values with their metadata in the declared order, e.g. for select components.
+     */
+    options: (locale?: string) => LiteralOption<T[number], M>[];
+    /**
+     * Compares two values by their declared order. Can be passed to `Array.prototype.sort`.
+     */
+    compare: (a: T[number], b: T[number]) => number;
 };
 
 /**
@@ -59,23 +219,49 @@ type safeStringLiteral<T extends readonly string[]> = {
  * const invalidColor: Colors.type = "yellow"; // Error: Type '"yellow"' is not assignable to type '"red" | "green" | "blue"'.
  *
  * const literal = Colors.toLiteral("red"); // "red"
- * const invalidLiteral = Colors.toLiteral("yellow"); // Error: Invalid value: yellow.
- * const literals = Colors.toLiterals(["red", "yellow"]); // Error: Invalid value: yellow.
+ * const invalidLiteral = Colors.toLiteral("yellow"); // InvalidLiteralError: Invalid value: yellow. Allowed values: red, green, blue
+ * const suggestion = Colors.toLiteral("gren"); // InvalidLiteralError: Invalid value: gren. Did you mean "green"? Allowed values: red, green, blue
+ * const literals = Colors.toLiterals(["red", "yellow"]); // InvalidLiteralError: Invalid value: yellow. ...
  * const isLiteral = Colors.isLiteral("red"); // true
  * const isInvalidLiteral = Colors.isLiteral("yellow"); // false
  *
+ * const hex = Colors.match(color, { red: () => "#f00", green: () => "#0f0", blue: () => "#00f" }); // "#f00"
+ * const isRed = Colors.match(color, { red: () => true, _: () => false }); // true
+ * const missing = Colors.match(color, { red: () => "#f00" }); // Error: Property 'green' is missing
+ *
+ * const WarmColors = Colors.exclude("green", "blue"); // safeStringLiteral<["red"]>
+ * const CoolColors = Colors.pick("blue", "green"); // safeStringLiteral<["green", "blue"]>
+ * const MoreColors = Colors.extend("yellow"); // safeStringLiteral<["red", "green", "blue", "yellow"]>
+ *
+ * const ExternalColors = Colors.withParseOptions({ trim: true, caseInsensitive: true, aliases: { red: ["crimson"] } });
+ * const externalLiteral = ExternalColors.toLiteral(" RED "); // "red"
+ * const aliasLiteral = ExternalColors.toLiteral("Crimson"); // "red"
+ *
  */
 export function safeStringLiteral<const T extends readonly string[]>(
     ...args: T
 ): safeStringLiteral<T> {
-    const arr = args;
+    return createSafeStringLiteral(args, {});
+}
+
+function createSafeStringLiteral<T extends readonly string[]>(
+    arr: T,
+    parseOptions: LiteralParseOptions<T[number]>,
+): safeStringLiteral<T> {
     type Value = T[number];
 
+    const lookup = createLookup(arr, parseOptions);
+
     function toLiteral(value: string): Value {
-        if (!isLiteral(value)) {
-            throw new Error(`Invalid value: ${value}`);
+        if (isLiteral(value)) {
+            return value;
+        }
+
+        const literal = lookup.get(normalize(value, parseOptions));
+        if (literal === undefined) {
+            throw new InvalidLiteralError(value, arr, findClosest(value, arr));
         }
-        return value as Value;
+        return literal;
     }
 
     function toLiterals(values: string[]): Value[] {
@@ -86,11 +272,236 @@ export function safeStringLiteral<const T extends readonly string[]>(
         return (arr as readonly string[]).includes(value);
     }
 
+    function match<R>(value: string, handlers: MatchHandlers<Value, R>): R {
+        const literal = toLiteral(value);
+        const handler = Object.prototype.hasOwnProperty.call(handlers, literal)
+            ? (handlers as Record<Value, (value: Value) => R>)[literal]
+            : (handlers as { _: (value: Value) => R })._;
+        return handler(literal);
+    }
+
+    function exclude(...values: string[]) {
+        return createSafeStringLiteral<readonly string[]>(
+            arr.filter((value) => !values.includes(value)),
+            parseOptions,
+        );
+    }
+
+    function pick(...values: string[]) {
+        return createSafeStringLiteral<readonly string[]>(
+            arr.filter((value) => values.includes(value)),
+            parseOptions,
+        );
+    }
+
+    function extend(...values: string[]) {
+        return createSafeStringLiteral<readonly string[]>(
+            [...arr, ...values.filter((value) => !isLiteral(value))],
+            parseOptions,
+        );
+    }
+
+    function withParseOptions(options: LiteralParseOptions<Value>) {
+        return createSafeStringLiteral(arr, options);
+    }
+
     return {
         values: arr,
         type: null as unknown as Value,
         toLiteral,
         toLiterals,
         isLiteral,
+        match,
+        exclude,
+        pick,
+        extend,
+        withParseOptions,
     } as safeStringLiteral<T>;
 }
+
+/**
+ * Maps the normalized values and aliases to their literal value.
+ *
+ * @throws Error if two different values are the same after normalization.
+ */
+function createLookup<V extends string>(
+    values: readonly V[],
+    options: LiteralParseOptions<V>,
+): Map<string, V> {
+    const lookup = new Map<string, V>();
+
+    for (const value of values) {
+        for (const input of [value, ...(options.aliases?.[value] ?? [])]) {
+            const key = normalize(input, options);
+            const existing = lookup.get(key);
+            if (existing !== undefined && existing !== value) {
+                throw new Error(
+                    `Ambiguous value: "${input}" matches "${existing}" and "${value}"`,
+                );
+            }
+            lookup.set(key, value);
+        }
+    }
+
+    return lookup;
+}
+
+function normalize(
+    value: string,
+    { trim, caseInsensitive, ignoreSeparators }: LiteralParseOptions<string>,
+): string {
+    let normalized = trim ? value.trim() : value;
+    if (caseInsensitive) {
+        normalized = normalized.toLowerCase();
+    }
+    if (ignoreSeparators) {
+        normalized = normalized.replace(/[\s_.-]+/g, "_");
+    }
+    return normalized;
+}
+
+/**
+ * Finds the value with the smallest edit distance. Values which differ in more than half of their characters are not considered.
+ */
+function findClosest(
+    value: string,
+    candidates: readonly string[],
+): string | undefined {
+    let closest: string | undefined;
+    let closestDistance = Infinity;
+
+    for (const candidate of candidates) {
+        const distance = editDistance(
+            value.toLowerCase(),
+            candidate.toLowerCase(),
+        );
+        if (
+            distance < closestDistance &&
+            distance <= Math.ceil(candidate.length / 2)
+        ) {
+            closest = candidate;
+            closestDistance = distance;
+        }
+    }
+
+    return closest;
+}
+
+/**
+ * Calculates the Levenshtein distance between two strings.
+ */
+function editDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(
+                previous[j] + 1,
+                current[j - 1] + 1,
+                previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+            );
+        }
+        previous = current;
+    }
+
+    return previous[b.length];
+}
+
+/**
+ * Creates a new string literal type containing the values of both string literal types.
+ *
+ * The values of `a` come first, followed by the values of `b` that are not part of `a`.
+ *
+ * @param a - The first string literal type.
+ * @param b - The second string literal type.
+ * @returns A string literal type with all values of both types.
+ * @example
+ * const PublicRoles = safeStringLiteral("viewer", "editor");
+ * const AdminRoles = safeStringLiteral("editor", "admin");
+ * const Roles = union(PublicRoles, AdminRoles); // safeStringLiteral<["viewer", "editor", "admin"]>
+ */
+export function union<
+    const A extends readonly string[],
+    const B extends readonly string[],
+>(
+    a: safeStringLiteral<A>,
+    b: safeStringLiteral<B>,
+): safeStringLiteral<[...A, ...Without<B, A[number]>]> {
+    return a.extend(...b.values);
+}
+
+/**
+ * Creates a string literal type like `safeStringLiteral` with metadata like labels, descriptions and the sort order for every value.
+ *
+ * The metadata map is type-checked to contain every value, so labels and values can't drift out of sync.
+ * Optional translations of the labels can be passed per locale.
+ *
+ * @param values - The array of strings to create a safe string literal type from.
+ * @param meta - The metadata of every value.
+ * @param locales - Optional translated labels, keyed by locale.
+ * @returns A string literal type with helper functions to ensure type safety and to access the metadata.
+ * @example
+ * const Priorities = safeStringLiteralWithMeta(
+ *     ["low", "high", "medium"],
+ *     {
+ *         low: { label: "Low", icon: "arrow-down" },
+ *         medium: { label: "Medium", icon: "minus", order: 1 },
+ *         high: { label: "High", icon: "arrow-up", order: 2 },
+ *     },
+ *     { de: { low: "Niedrig", medium: "Mittel", high: "Hoch" } },
+ * );
+ *
+ * Priorities.label("high"); // "High"
+ * Priorities.label("high", "de"); // "Hoch"
+ * Priorities.options(); // [{ value: "low", label: "Low", icon: "arrow-down" }, { value: "medium", ... }, { value: "high", ... }]
+ * ["high", "low"].sort(Priorities.compare); // ["low", "high"]
+ */
+export function safeStringLiteralWithMeta<
+    const T extends readonly string[],
+    Meta extends { [K in T[number]]: LiteralMeta },
+>(
+    values: T,
+    meta: Meta,
+    locales: Record<string, { [K in T[number]]?: string }> = {},
+): safeStringLiteralWithMeta<T, Meta[T[number]]> {
+    type Value = T[number];
+    type M = Meta[Value];
+
+    function getMeta(value: Value): M {
+        return meta[value];
+    }
+
+    function label(value: Value, locale?: string): string {
+        return (locale && locales[locale]?.[value]) || meta[value].label;
+    }
+
+    function description(value: Value): string | undefined {
+        return meta[value].description;
+    }
+
+    function order(value: Value): number {
+        return meta[value].order ?? values.indexOf(value);
+    }
+
+    function compare(a: Value, b: Value): number {
+        return order(a) - order(b);
+    }
+
+    function options(locale?: string): LiteralOption<Value, M>[] {
+        return [...values].sort(compare).map((value: Value) => ({
+            ...meta[value],
+            value,
+            label: label(value, locale),
+        }));
+    }
+
+    return {
+        ...safeStringLiteral(...values),
+        meta: getMeta,
+        label,
+        description,
+        options,
+        compare,
+    };
+}
@@ -0,0 +1,157 @@
+import { describe, expect, it } from "vitest";
+
+import { failure, success } from "@/dx/result/result";
+import {
+    RemoteError,
+    createErrorRegistry,
+    deserializeResult,
+    serializeError,
+    serializeResult,
+} from "@/dx/serialize-result/serialize-result";
+
+class NotFoundError extends Error {
+    constructor(public readonly resource: string) {
+        super(`${resource} not found`);
+        this.name = "NotFoundError";
+    }
+}
+
+class ValidationError extends Error {
+    constructor(public readonly fields: string[]) {
+        super("Invalid input");
+    }
+}
+
+const registry = createErrorRegistry()
+    .register("NOT_FOUND", NotFoundError)
+    .register("VALIDATION", ValidationError, {
+        toDetails: (error) => ({ fields: error.fields.join(",") }),
+        fromSerialized: (serialized) =>
+            new ValidationError(String(serialized.details?.fields).split(",")),
+    });
+
+/**
+ * Simulates sending a value over the network.
+ */
+function transport<T>(value: T): T {
+    return JSON.parse(JSON.stringify(value));
+}
+
+describe("serializeResult", () => {
+    it("should pass successes through", () => {
+        expect(serializeResult(success({ id: 1 }))).toEqual(success({ id: 1 }));
+    });
+
+    it("should serialize registered errors", () => {
+        const result = serializeResult(failure(new NotFoundError("Invoice")), {
+            registry,
+            stack: false,
+        });
+
+        expect(result.error).toEqual({
+            code: "NOT_FOUND",
+            name: "NotFoundError",
+            message: "Invoice not found",
+            details: { resource: "Invoice" },
+        });
+    });
+
+    it("should serialize the cause chain", () => {
+        const error = new Error("outer") as Error & { cause: unknown };
+        error.cause = Object.assign(new Error("inner"), { code: "ECONN" });
+
+        expect(serializeError(error, { stack: false })).toEqual({
+            code: "Error",
+            name: "Error",
+            message: "outer",
+            cause: {
+                code: "ECONN",
+                name: "Error",
+                message: "inner",
+            },
+        });
+    });
+
+    it("should not send the properties of unregistered errors", () => {
+        const error = Object.assign(new Error("duplicate key"), {
+            query: "INSERT INTO users (email) VALUES ($1)",
+            parameters: ["john@example.com"],
+            toSql: () => "",
+        });
+
+        expect(serializeError(error, { registry, stack: false })).toEqual({
+            code: "Error",
+            name: "Error",
+            message: "duplicate key",
+        });
+    });
+
+    it("should normalize non-Error values", () => {
+        expect(serializeError("oops", { stack: false })).toEqual({
+            code: "Error",
+            name: "Error",
+            message: "oops",
+        });
+    });
+
+    it("should include the stack trace in development", () => {
+        const error = new Error("test");
+        expect(serializeError(error).stack).toBe(error.stack);
+        expect(serializeError(error, { stack: false }).stack).toBeUndefined();
+    });
+});
+
+describe("deserializeResult", () => {
+    it("should pass successes through", () => {
+        expect(
+            deserializeResult(transport(serializeResult(success(42)))),
+        ).toEqual(success(42));
+    });
+
+    it("should rebuild registered error classes", () => {
+        const serialized = transport(
+            serializeResult(failure(new NotFoundError("Invoice")), {
+                registry,
+            }),
+        );
+        const result = deserializeResult(serialized, { registry });
+
+        expect(result.error).toBeInstanceOf(NotFoundError);
+        expect((result.error as NotFoundError).resource).toBe("Invoice");
+        expect(result.error?.message).toBe("Invoice not found");
+        expect(result.error?.name).toBe("NotFoundError");
+    });
+
+    it("should use custom serialization of registered errors", () => {
+        const serialized = transport(
+            serializeResult(failure(new ValidationError(["name", "email"])), {
+                registry,
+            }),
+        );
+        const result = deserializeResult(serialized, { registry });
+
+        expect(result.error).toBeInstanceOf(ValidationError);
+        expect((result.error as ValidationError).fields).toEqual([
+            "name",
+            "email",
+        ]);
+    });
+
+    it("should rebuild unregistered errors as RemoteError", () => {
+        const error = new NotFoundError("Invoice") as NotFoundError & {
+            cause: unknown;
+        };
+        error.cause = new Error("inner");
+
+        const result = deserializeResult(
+            transport(serializeResult(failure(error))),
+        );
+
+        expect(result.error).toBeInstanceOf(RemoteError);
+        expect((result.error as RemoteError).code).toBe("NotFoundError");
+        expect((result.error as RemoteError).details).toBeUndefined();
+        expect(
+            ((result.error as Error & { cause: Error }).cause as Error).message,
+        ).toBe("inner");
+    });
+});
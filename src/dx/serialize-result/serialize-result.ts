@@ -0,0 +1,284 @@
+import { isOk } from "@/dx/result/result";
+import { ErrorClass, Result, normalizeError } from "@/dx/try-catch/try-catch";
+
+/**
+ * A plain object representation of an error which can be serialized, e.g. from a server action to the client.
+ */
+export type SerializedError = {
+    /**
+     * A machine readable code. The registered code of the error class, the `code` property of the error or its name.
+     */
+    code: string;
+    /**
+     * The name of the error class.
+     */
+    name: string;
+    message: string;
+    /**
+     * Additional properties of the error. Only sent for registered error classes, so internals of other errors (e.g. the query of a database error) don't reach the client.
+     */
+    details?: Record<string, unknown>;
+    cause?: SerializedError;
+    /**
+     * The stack trace of the error. Only included if enabled, by default in development.
+     */
+    stack?: string;
+};
+
+/**
+ * A Result where the error is a `SerializedError`.
+ */
+export type SerializedResult<T> =
+    | { result: T; error: null }
+    | { result: null; error: SerializedError };
+
+type ErrorRegistration<E extends Error = Error> = {
+    code: string;
+    errorClass: ErrorClass<E>;
+    toDetails?: (error: E) => Record<string, unknown>;
+    fromSerialized?: (serialized: SerializedError) => E;
+};
+
+/**
+ * A registry of error classes that are rebuilt by `deserializeResult`.
+ */
+export type ErrorRegistry = {
+    /**
+     * Registers an error class under a code. The same registry has to be used on both sides.
+     *
+     * By default, all own properties of the error are sent as `details` and restored on an instance of the class without calling its constructor.
+     * Pass `toDetails` and `fromSerialized` to customize this.
+     */
+    register: <E extends Error>(
+        code: string,
+        errorClass: ErrorClass<E>,
+        options?: Pick<ErrorRegistration<E>, "toDetails" | "fromSerialized">,
+    ) => ErrorRegistry;
+    /**
+     * Finds the registration of an error instance or a code.
+     */
+    find: (errorOrCode: Error | string) => ErrorRegistration | undefined;
+};
+
+/**
+ * Options for `serializeResult`.
+ */
+export type SerializeOptions = {
+    registry?: ErrorRegistry;
+    /**
+     * Includes the stack traces. Defaults to `true` in development.
+     */
+    stack?: boolean;
+};
+
+/**
+ * An error that was deserialized, but whose code is not registered.
+ */
+export class RemoteError extends Error {
+    constructor(
+        public readonly code: string,
+        message: string,
+        public readonly details?: Record<string, unknown>,
+    ) {
+        super(message);
+        this.name = "RemoteError";
+    }
+}
+
+/**
+ * Creates a registry of error classes that can be rebuilt after serialization.
+ *
+ * @returns An empty registry.
+ * @example
+ * // errors.ts, shared between server and client
+ * export class NotFoundError extends Error {
+ *     constructor(public resource: string) { super(`${resource} not found`); }
+ * }
+ * export const errorRegistry = createErrorRegistry().register("NOT_FOUND", NotFoundError);
+ */
+export function createErrorRegistry(): ErrorRegistry {
+    const registrations: ErrorRegistration[] = [];
+
+    const registry: ErrorRegistry = {
+        register(code, errorClass, options) {
+            registrations.push({
+                code,
+                errorClass,
+                ...options,
+            } as ErrorRegistration);
+            return registry;
+        },
+        find(errorOrCode) {
+            if (typeof errorOrCode === "string") {
+                return registrations.find(({ code }) => code === errorOrCode);
+            }
+
+            return (
+                registrations.find(
+                    ({ errorClass }) => errorOrCode.constructor === errorClass,
+                ) ??
+                registrations.find(
+                    ({ errorClass }) => errorOrCode instanceof errorClass,
+                )
+            );
+        },
+    };
+
+    return registry;
+}
+
+/**
+ * Converts an error into a `SerializedError`. Non-Error values are normalized first.
+ *
+ * @param error - The error to serialize.
+ * @param options - The registry of error classes and whether to include stack traces.
+ * @returns A plain object representation of the error and its causes.
+ */
+export function serializeError(
+    error: unknown,
+    options: SerializeOptions = {},
+): SerializedError {
+    return serialize(error, options, new Set());
+}
+
+function serialize(
+    error: unknown,
+    options: SerializeOptions,
+    seen: Set<unknown>,
+): SerializedError {
+    const { registry, stack = process.env.NODE_ENV === "development" } =
+        options;
+    const normalized = normalizeError(error);
+    seen.add(normalized);
+
+    const registration = registry?.find(normalized);
+    const details = registration
+        ? (registration.toDetails?.(normalized) ?? getDetails(normalized))
+        : {};
+    // The cause of a normalized non-Error value is the value itself.
+    const cause =
+        error instanceof Error
+            ? (error as Error & { cause?: unknown }).cause
+            : undefined;
+
+    return {
+        code: registration?.code ?? getCode(normalized),
+        name: normalized.name,
+        message: normalized.message,
+        ...(Object.keys(details).length > 0 && { details }),
+        ...(cause !== undefined &&
+            !seen.has(cause) && {
+                cause: serialize(cause, options, seen),
+            }),
+        ...(stack && normalized.stack && { stack: normalized.stack }),
+    };
+}
+
+/**
+ * Rebuilds an error from a `SerializedError`.
+ *
+ * Registered codes are rebuilt as instances of the registered class, so they can be checked with `instanceof`.
+ * Unregistered codes are rebuilt as `RemoteError`.
+ *
+ * @param serialized - The serialized error.
+ * @param registry - The registry of error classes.
+ * @returns The rebuilt error including its causes.
+ */
+export function deserializeError(
+    serialized: SerializedError,
+    registry?: ErrorRegistry,
+): Error {
+    const registration = registry?.find(serialized.code);
+
+    let error: Error;
+    if (registration?.fromSerialized) {
+        error = registration.fromSerialized(serialized);
+    } else if (registration) {
+        error = Object.create(registration.errorClass.prototype);
+        Object.assign(error, serialized.details, {
+            name: serialized.name,
+            message: serialized.message,
+        });
+    } else {
+        error = new RemoteError(
+            serialized.code,
+            serialized.message,
+            serialized.details,
+        );
+    }
+
+    if (serialized.cause) {
+        (error as Error & { cause?: unknown }).cause = deserializeError(
+            serialized.cause,
+            registry,
+        );
+    }
+    if (serialized.stack) {
+        error.stack = serialized.stack;
+    }
+
+    return error;
+}
+
+/**
+ * Converts a Result into a serializable Result, e.g. to return it from a server action or to pass it to a client component.
+ *
+ * @param result - The Result to serialize.
+ * @param options - The registry of error classes and whether to include stack traces.
+ * @returns The Result with a `SerializedError` instead of an error instance.
+ * @example
+ * // server
+ * export async function getInvoiceAction(id: string) {
+ *     return serializeResult(await tryCatch(getInvoice(id)), { registry: errorRegistry });
+ * }
+ *
+ * // client
+ * const result = deserializeResult(await getInvoiceAction(id), { registry: errorRegistry });
+ * if (result.error instanceof NotFoundError) {
+ *     // ...
+ * }
+ */
+export function serializeResult<T, E>(
+    result: Result<T, E>,
+    options: SerializeOptions = {},
+): SerializedResult<T> {
+    if (isOk(result)) {
+        return result;
+    }
+    return { result: null, error: serializeError(result.error, options) };
+}
+
+/**
+ * Converts a serialized Result back into a Result and rebuilds the registered error classes.
+ *
+ * @param serialized - The serialized Result.
+ * @param options - The registry of error classes.
+ * @returns The Result with the rebuilt error.
+ */
+export function deserializeResult<T>(
+    serialized: SerializedResult<T>,
+    options: { registry?: ErrorRegistry } = {},
+): Result<T, Error> {
+    if (serialized.error === null) {
+        return { result: serialized.result, error: null };
+    }
+    return {
+        result: null,
+        error: deserializeError(serialized.error, options.registry),
+    };
+}
+
+function getCode(error: Error): string {
+    const code = (error as Error & { code?: unknown }).code;
+    return typeof code === "string" ? code : error.name;
+}
+
+function getDetails(error: Error): Record<string, unknown> {
+    const details: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(error)) {
+        if (!["name", "message", "stack", "cause"].includes(key)) {
+            details[key] = value;
+        }
+    }
+    return details;
+}
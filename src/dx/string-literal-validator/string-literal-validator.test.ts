@@ -1,4 +1,5 @@
 import { describe, expect, it } from "vitest";
+import { z } from "zod";
 
 import { safeStringLiteral } from "@/dx/safe-string-literal/safe-string-literal";
 import {
@@ -26,6 +27,21 @@ describe("createArrayValidator", () => {
         expect(() => validator.parse(["a", "d"])).toThrow("Invalid value");
     });
 
+    it("should keep the array input type without coercion", () => {
+        const validator = createArrayValidator(
+            safeLiteralType.values,
+            safeLiteralType.toLiterals,
+            { unique: true },
+        );
+
+        const input: z.input<typeof validator> = ["a", "b", "a"];
+        // @ts-expect-error - single values are only accepted with coercion
+        const single: z.input<typeof validator> = "a";
+
+        expect(validator.parse(input)).toEqual(["a", "b"]);
+        expect(() => validator.parse(single)).toThrow();
+    });
+
     it("should throw an error if value is undefined", () => {
         const validator = createArrayValidator(
             safeLiteralType.values,
@@ -49,6 +65,63 @@ describe("createArrayValidator", () => {
         );
         expect(() => validator.parse([])).not.toThrow();
     });
+
+    it("should wrap a single value with the single coercion", () => {
+        const validator = createArrayValidator(
+            safeLiteralType.values,
+            safeLiteralType.toLiterals,
+            { coerce: "single" },
+        );
+        expect(validator.parse("a")).toEqual(["a"]);
+        expect(validator.parse(["a", "b"])).toEqual(["a", "b"]);
+        expect(() => validator.parse("a,b")).toThrow("Invalid value");
+    });
+
+    it("should split comma-separated values with the list coercion", () => {
+        const validator = createArrayValidator(
+            safeLiteralType.values,
+            safeLiteralType.toLiterals,
+            { coerce: "list" },
+        );
+        expect(validator.parse("a")).toEqual(["a"]);
+        expect(validator.parse("a, b")).toEqual(["a", "b"]);
+        expect(validator.parse(["a,b", "c"])).toEqual(["a", "b", "c"]);
+        expect(validator.parse("")).toEqual([]);
+        expect(() => validator.parse(undefined)).toThrow();
+    });
+
+    it("should support a custom separator", () => {
+        const validator = createArrayValidator(
+            safeLiteralType.values,
+            safeLiteralType.toLiterals,
+            { coerce: "list", separator: "|" },
+        );
+        expect(validator.parse("a|c")).toEqual(["a", "c"]);
+    });
+
+    it("should remove duplicates and sort by declared order", () => {
+        const validator = createArrayValidator(
+            safeLiteralType.values,
+            safeLiteralType.toLiterals,
+            { coerce: "list", unique: true, sort: true },
+        );
+        expect(validator.parse("c,a,c,b")).toEqual(["a", "b", "c"]);
+    });
+
+    it("should validate the number of values", () => {
+        const validator = createArrayValidator(
+            safeLiteralType.values,
+            safeLiteralType.toLiterals,
+            { coerce: "list", unique: true, min: 1, max: 2 },
+        );
+        expect(validator.parse("a,a,b")).toEqual(["a", "b"]);
+        expect(() => validator.parse("")).toThrow(
+            "Array must contain at least 1 element(s)",
+        );
+        expect(() => validator.parse("a,b,c")).toThrow(
+            "Array must contain at most 2 element(s)",
+        );
+    });
 });
 
 describe("createSingleValidator", () => {
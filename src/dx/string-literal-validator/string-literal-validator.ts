@@ -1,20 +1,123 @@
 import { z } from "zod";
 
+/**
+ * How non-array input is coerced into an array before validation.
+ *
+ * - `"none"`: Only arrays are accepted.
+ * - `"single"`: A single string is wrapped into an array, e.g. `"a"` becomes `["a"]`.
+ * - `"list"`: Like `"single"`, but strings are additionally split by the separator, e.g. `"a,b"` becomes `["a", "b"]`.
+ *   This also applies to every entry of an array, so repeated keys like `?status=a,b&status=c` are supported as well.
+ */
+export type ArrayCoercion = "none" | "single" | "list";
+
+/**
+ * Options for `createArrayValidator`.
+ */
+export type ArrayValidatorOptions = {
+    /**
+     * How non-array input is coerced into an array. Defaults to `"none"`.
+     */
+    coerce?: ArrayCoercion;
+    /**
+     * The separator used by the `"list"` coercion. Defaults to `","`.
+     */
+    separator?: string;
+    /**
+     * Removes duplicate values. Defaults to `false`.
+     */
+    unique?: boolean;
+    /**
+     * The minimum number of values (after removing duplicates).
+     */
+    min?: number;
+    /**
+     * The maximum number of values (after removing duplicates).
+     */
+    max?: number;
+    /**
+     * Sorts the values by the order of the allowed values instead of the input order. Defaults to `false`.
+     */
+    sort?: boolean;
+};
+
 /**
  * Creates a zod validator for an array of strings to a literal type.
  *
  * @param values - The array of allowed input strings.
  * @param transform - The function used to transform the array of strings to the desired type.
+ * @param options - Optional coercion of query string and form values, removal of duplicates, length limits and sorting.
  * @returns A zod validator that validates an array of strings and transforms them to the desired type.
  * By default the validator will throw an error if the input is not an array.
  * However, it doesn't throw an error if the input is an empty array.
+ * The input type of the validator is `unknown` if values are coerced, otherwise an array of the allowed strings.
+ * @example
+ * const validator = createArrayValidator(Status.values, Status.toLiterals, {
+ *     coerce: "list",
+ *     unique: true,
+ *     sort: true,
+ * });
+ * validator.parse("closed,open,closed"); // ["open", "closed"]
  */
 export function createArrayValidator<T extends string, U>(
     values: readonly [T, ...T[]],
     transform: (values: T[]) => U[],
-) {
-    return z
-        .array(z.enum(values, { message: "Invalid value" }))
+    options?: ArrayValidatorOptions & { coerce?: "none" },
+): z.ZodType<U[], z.ZodTypeDef, T[]>;
+export function createArrayValidator<T extends string, U>(
+    values: readonly [T, ...T[]],
+    transform: (values: T[]) => U[],
+    options: ArrayValidatorOptions,
+): z.ZodType<U[], z.ZodTypeDef, unknown>;
+export function createArrayValidator<T extends string, U>(
+    values: readonly [T, ...T[]],
+    transform: (values: T[]) => U[],
+    options: ArrayValidatorOptions = {},
+): z.ZodType<U[], z.ZodTypeDef, unknown> {
+    const {
+        coerce = "none",
+        separator = ",",
+        unique,
+        min,
+        max,
+        sort,
+    } = options;
+
+    const array = z.array(z.enum(values, { message: "Invalid value" }));
+    const validator: z.ZodType<T[], z.ZodTypeDef, unknown> =
+        coerce === "none"
+            ? array
+            : z.preprocess(
+                  (input) => coerceArray(input, coerce, separator),
+                  array,
+              );
+
+    return validator
+        .transform((input) => {
+            const result = unique ? [...new Set(input)] : input;
+            return sort
+                ? [...result].sort(
+                      (a, b) => values.indexOf(a) - values.indexOf(b),
+                  )
+                : result;
+        })
+        .superRefine((input, ctx) => {
+            if (min !== undefined && input.length < min) {
+                ctx.addIssue({
+                    code: z.ZodIssueCode.too_small,
+                    minimum: min,
+                    type: "array",
+                    inclusive: true,
+                });
+            }
+            if (max !== undefined && input.length > max) {
+                ctx.addIssue({
+                    code: z.ZodIssueCode.too_big,
+                    maximum: max,
+                    type: "array",
+                    inclusive: true,
+                });
+            }
+        })
         .transform(transform);
 }
 
@@ -31,3 +134,26 @@ export function createSingleValidator<T extends string, U>(
 ) {
     return z.enum(values, { message: "Invalid value" }).transform(transform);
 }
+
+function coerceArray(
+    input: unknown,
+    coerce: Exclude<ArrayCoercion, "none">,
+    separator: string,
+): unknown {
+    if (coerce === "single") {
+        return typeof input === "string" ? [input] : input;
+    }
+
+    const split = (value: unknown) =>
+        typeof value === "string"
+            ? value
+                  .split(separator)
+                  .map((part) => part.trim())
+                  .filter((part) => part !== "")
+            : [value];
+
+    if (typeof input === "string") {
+        return split(input);
+    }
+    return Array.isArray(input) ? input.flatMap(split) : input;
+}
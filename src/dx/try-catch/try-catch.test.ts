@@ -1,6 +1,13 @@
-import { describe, expect, it } from "vitest";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
-import { tryCatch } from "./try-catch";
+import {
+    AbortError,
+    Result,
+    TimeoutError,
+    UnknownError,
+    normalizeError,
+    tryCatch,
+} from "./try-catch";
 
 describe("tryCatch", () => {
     describe("synchronous", () => {
@@ -72,4 +79,173 @@ describe("tryCatch", () => {
             expect(result).toEqual({ result: null, error });
         });
     });
+
+    describe("error normalization", () => {
+        it("should normalize non-Error throwables", () => {
+            const result = tryCatch(() => {
+                throw "string error";
+            });
+
+            expect(result.error).toBeInstanceOf(Error);
+            expect(result.error?.message).toBe("string error");
+            expect((result.error as Error & { cause: unknown }).cause).toBe(
+                "string error",
+            );
+        });
+
+        it("should normalize thrown null values into a failure", async () => {
+            const result = await tryCatch(Promise.reject(null));
+
+            expect(result.error).toBeInstanceOf(Error);
+            expect(result.error?.message).toBe("Non-error value thrown: null");
+        });
+
+        it("should keep Error instances as is", () => {
+            const error = new TypeError("test");
+            expect(normalizeError(error)).toBe(error);
+        });
+    });
+
+    describe("with expected errors", () => {
+        class NotFoundError extends Error {}
+        class ValidationError extends Error {}
+
+        it("should return matching errors as failure", () => {
+            const error = new ValidationError("invalid");
+            const result = tryCatch(
+                () => {
+                    throw error;
+                },
+                { errors: [NotFoundError, ValidationError] },
+            );
+
+            expect(result).toEqual({ result: null, error });
+        });
+
+        it("should rethrow errors that don't match", () => {
+            expect(() =>
+                tryCatch(
+                    () => {
+                        throw new Error("unexpected");
+                    },
+                    { errors: [NotFoundError] },
+                ),
+            ).toThrow("unexpected");
+        });
+
+        it("should wrap errors that don't match in an UnknownError", () => {
+            const result = tryCatch(
+                () => {
+                    throw "unexpected";
+                },
+                { errors: [NotFoundError], onUnknown: "wrap" },
+            );
+
+            expect(result.error).toBeInstanceOf(UnknownError);
+            expect(result.error?.message).toBe("Unknown error: unexpected");
+            expect((result.error as UnknownError).cause).toBe("unexpected");
+        });
+
+        it("should accept a type guard", async () => {
+            const isCode = (error: unknown): error is { code: number } =>
+                typeof error === "object" && error !== null && "code" in error;
+
+            const result = await tryCatch(Promise.reject({ code: 404 }), {
+                errors: isCode,
+            });
+
+            expect(result.error?.code).toBe(404);
+        });
+
+        it("should reject with errors that don't match", async () => {
+            const error = new Error("unexpected");
+            await expect(
+                tryCatch(Promise.reject(error), { errors: [NotFoundError] }),
+            ).rejects.toBe(error);
+        });
+    });
+
+    describe("async functions and thenables", () => {
+        it("should await functions returning a promise", async () => {
+            const result = await tryCatch(async () => 42);
+            expect(result).toEqual({ result: 42, error: null });
+        });
+
+        it("should return rejections of async functions as failure", async () => {
+            const error = new Error("async error");
+            const result = await tryCatch(async () => {
+                throw error;
+            });
+            expect(result).toEqual({ result: null, error });
+        });
+
+        it("should accept thenables", async () => {
+            const thenable: PromiseLike<number> = {
+                then: (onFulfilled, onRejected) =>
+                    Promise.resolve(42).then(onFulfilled, onRejected),
+            };
+
+            const result = await tryCatch(thenable);
+            expect(result).toEqual({ result: 42, error: null });
+        });
+
+        it("should type functions that only sometimes return a promise as maybe a promise", async () => {
+            const load = (cached: boolean) =>
+                tryCatch(() => (cached ? 1 : Promise.resolve(2)));
+
+            const cached: Result<number> | Promise<Result<number>> = load(true);
+            // @ts-expect-error - the Result is only a promise if the function returned one
+            const loaded: Promise<Result<number>> = load(false);
+
+            expect(cached).toEqual({ result: 1, error: null });
+            expect(await loaded).toEqual({ result: 2, error: null });
+        });
+    });
+
+    describe("with timeout and abort signal", () => {
+        beforeEach(() => {
+            vi.useFakeTimers();
+        });
+
+        afterEach(() => {
+            vi.useRealTimers();
+        });
+
+        const never = () => new Promise<number>(() => {});
+
+        it("should return a TimeoutError if the promise doesn't settle in time", async () => {
+            const promise = tryCatch(never, { timeoutMs: 100 });
+            await vi.advanceTimersByTimeAsync(100);
+
+            const result = await promise;
+            expect(result.error).toBeInstanceOf(TimeoutError);
+            expect(result.error?.message).toBe(
+                "Operation timed out after 100ms",
+            );
+        });
+
+        it("should return the result if the promise settles in time", async () => {
+            const promise = tryCatch(Promise.resolve(42), { timeoutMs: 100 });
+            await vi.advanceTimersByTimeAsync(100);
+
+            expect(await promise).toEqual({ result: 42, error: null });
+        });
+
+        it("should return an AbortError if the signal is aborted", async () => {
+            const controller = new AbortController();
+            const promise = tryCatch(never(), { signal: controller.signal });
+            controller.abort("cancelled");
+
+            const result = await promise;
+            expect(result.error).toBeInstanceOf(AbortError);
+            expect((result.error as AbortError).cause).toBe("cancelled");
+        });
+
+        it("should return an AbortError if the signal is already aborted", async () => {
+            const result = await tryCatch(never, {
+                signal: AbortSignal.abort(),
+            });
+            expect(result.error).toBeInstanceOf(AbortError);
+        });
+    });
 });
@@ -1,9 +1,9 @@
-type Success<T> = {
+export type Success<T> = {
     result: T;
     error: null;
 };
 
-type Failure<E> = {
+export type Failure<E> = {
     result: null;
     error: E;
 };
@@ -11,9 +11,157 @@ type Failure<E> = {
 export type Result<T, E = Error> = Success<T> | Failure<E>;
 
 /**
- * Try-catch wrapper for synchronous functions
- * @param fn - The function to wrap
- * @returns A Result object containing the result or error
+ * An error that wraps a thrown value which didn't match any of the expected errors passed to `tryCatch`.
+ *
+ * The original thrown value is kept as `cause`.
+ */
+export class UnknownError extends Error {
+    readonly cause: unknown;
+
+    constructor(cause: unknown) {
+        super(`Unknown error: ${normalizeError(cause).message}`);
+        this.name = "UnknownError";
+        this.cause = cause;
+    }
+}
+
+/**
+ * An error that is returned by `tryCatch` if the wrapped promise doesn't settle within `timeoutMs`.
+ */
+export class TimeoutError extends Error {
+    constructor(public readonly timeoutMs: number) {
+        super(`Operation timed out after ${timeoutMs}ms`);
+        this.name = "TimeoutError";
+    }
+}
+
+/**
+ * An error that is returned by `tryCatch` if the passed `signal` is aborted before the wrapped promise settles.
+ *
+ * The abort reason of the signal is kept as `cause`.
+ */
+export class AbortError extends Error {
+    readonly cause: unknown;
+
+    constructor(reason?: unknown) {
+        super("Operation was aborted");
+        this.name = "AbortError";
+        this.cause = reason;
+    }
+}
+
+/**
+ * Any error class, including abstract classes and classes with required constructor parameters.
+ */
+export type ErrorClass<E> = abstract new (...args: never[]) => E;
+
+/**
+ * Describes which thrown values are expected errors.
+ *
+ * Either a list of error classes which are checked with `instanceof` or a type guard.
+ */
+export type ErrorMatcher<E = unknown> =
+    | readonly ErrorClass<E>[]
+    | ((error: unknown) => error is E);
+
+/**
+ * Options for `tryCatch`.
+ */
+export type TryCatchOptions = {
+    /**
+     * The expected errors. Only thrown values matching these become a `Failure`.
+     * If omitted, every thrown value becomes a `Failure` and non-Error values are normalized to an `Error`.
+     */
+    errors?: ErrorMatcher;
+    /**
+     * What happens with thrown values that don't match `errors`.
+     *
+     * - `throw`: The value is rethrown (default).
+     * - `wrap`: The value is wrapped in an `UnknownError` and returned as a `Failure`.
+     */
+    onUnknown?: "throw" | "wrap";
+    /**
+     * Aborts waiting for asynchronous work. If the signal is aborted before the promise settles, an `AbortError` is returned as `Failure`.
+     */
+    signal?: AbortSignal;
+    /**
+     * The maximum time in milliseconds to wait for asynchronous work. If the promise doesn't settle in time, a `TimeoutError` is returned as `Failure`.
+     */
+    timeoutMs?: number;
+};
+
+type MatchedError<M> = M extends (error: unknown) => error is infer E
+    ? E
+    : M extends readonly ErrorClass<infer E>[]
+      ? E
+      : Error;
+
+/**
+ * The error type of a `Failure` returned by `tryCatch` for the given options.
+ */
+export type TryCatchError<O extends TryCatchOptions> =
+    | MatchedError<O["errors"]>
+    | (O["onUnknown"] extends "wrap" ? UnknownError : never)
+    | (O extends { timeoutMs: number } ? TimeoutError : never)
+    | (O extends { signal: AbortSignal } ? AbortError : never);
+
+/**
+ * The return type of `tryCatch` for a function returning `T`.
+ *
+ * Functions returning a promise or thenable result in a promise of a Result. Every other function results in a Result.
+ * Functions that only sometimes return a promise result in either of both, so the Result has to be awaited.
+ */
+export type TryCatchResult<T, E> = [T] extends [never]
+    ? Result<T, E>
+    : [T] extends [PromiseLike<infer U>]
+      ? Promise<Result<U, E>>
+      : [Extract<T, PromiseLike<unknown>>] extends [never]
+        ? Result<T, E>
+        :
+              | Result<Exclude<T, PromiseLike<unknown>>, E>
+              | Promise<Result<Awaited<T>, E>>;
+
+/**
+ * Checks if a value is a promise or any other thenable.
+ */
+export function isPromiseLike<T>(value: unknown): value is PromiseLike<T> {
+    return (
+        value !== null &&
+        (typeof value === "object" || typeof value === "function") &&
+        typeof (value as PromiseLike<T>).then === "function"
+    );
+}
+
+/**
+ * Normalizes a thrown value into an `Error`.
+ *
+ * `Error` instances are returned as is. Any other value is wrapped in a new `Error` which keeps the original value as `cause`.
+ *
+ * @param error - The thrown value.
+ * @returns An `Error` instance.
+ * @example
+ * normalizeError(new Error("test")); // Error: test
+ * normalizeError("test"); // Error: test { cause: "test" }
+ * normalizeError(null); // Error: Non-error value thrown: null { cause: null }
+ */
+export function normalizeError(error: unknown): Error {
+    if (error instanceof Error) {
+        return error;
+    }
+
+    const normalized = new Error(
+        typeof error === "string"
+            ? error
+            : `Non-error value thrown: ${String(error)}`,
+    ) as Error & { cause: unknown };
+    normalized.cause = error;
+    return normalized;
+}
+
+/**
+ * Try-catch wrapper for synchronous and asynchronous functions
+ * @param fn - The function to wrap. If it returns a promise or thenable, the promise is awaited.
+ * @returns A Result object containing the result or error. A Promise containing the Result object if the function returns a promise.
  * @example
  * const result = tryCatch(() => {
  *     fs.writeFileSync('file.txt', 'Hello, world!');
@@ -25,11 +173,17 @@ export type Result<T, E = Error> = Success<T> | Failure<E>;
  *     return fs.readFileSync('file-does-not-exist.txt', 'utf8');
  * });
  * console.log(result); // { result: null, error: Error: ENOENT: no such file or directory, open 'file-does-not-exist.txt' }
+ *
+ * const result = await tryCatch(async () => {
+ *     const response = await fetch('https://api.example.com/data');
+ *     return response.json();
+ * });
+ * console.log(result); // { result: { ... }, error: null }
  */
-export function tryCatch<T, E = Error>(fn: () => T): Result<T, E>;
+export function tryCatch<T, E = Error>(fn: () => T): TryCatchResult<T, E>;
 
 /**
- * Try-catch wrapper for asynchronous functions
+ * Try-catch wrapper for promises and thenables
  * @param promise - The promise to wrap
  * @returns A Promise containing the Result object
  * @example
@@ -40,22 +194,146 @@ export function tryCatch<T, E = Error>(fn: () => T): Result<T, E>;
  * console.log(result); // { result: null, error: Error: 404 }
  */
 export function tryCatch<T, E = Error>(
-    promise: Promise<T>,
+    promise: PromiseLike<T>,
 ): Promise<Result<T, E>>;
 
+/**
+ * Try-catch wrapper for synchronous and asynchronous functions with options
+ * @param fn - The function to wrap. If it returns a promise or thenable, the promise is awaited.
+ * @param options - The expected errors, how to handle unexpected ones and when to stop waiting for asynchronous work
+ * @returns A Result object containing the result or a matching error. A Promise containing the Result object if the function returns a promise.
+ * @example
+ * const result = tryCatch(() => JSON.parse(input), { errors: [SyntaxError] });
+ * console.log(result); // { result: null, error: SyntaxError: Unexpected token ... }
+ *
+ * const result = tryCatch(() => { throw "oops" }, { errors: [SyntaxError], onUnknown: "wrap" });
+ * console.log(result); // { result: null, error: UnknownError: Unknown error: oops }
+ *
+ * const result = await tryCatch(() => fetch(url), { timeoutMs: 5000 });
+ * console.log(result); // { result: null, error: TimeoutError: Operation timed out after 5000ms }
+ */
+export function tryCatch<T, const O extends TryCatchOptions>(
+    fn: () => T,
+    options: O,
+): TryCatchResult<T, TryCatchError<O>>;
+
+/**
+ * Try-catch wrapper for promises and thenables with options
+ * @param promise - The promise to wrap
+ * @param options - The expected errors, how to handle unexpected ones and when to stop waiting for the promise
+ * @returns A Promise containing the Result object with the result or a matching error
+ * @example
+ * const result = await tryCatch(fetchUser(id), { errors: [NotFoundError] });
+ * console.log(result); // { result: null, error: NotFoundError: User not found }
+ *
+ * const controller = new AbortController();
+ * const result = await tryCatch(fetchUser(id), { signal: controller.signal });
+ * controller.abort();
+ * console.log(result); // { result: null, error: AbortError: Operation was aborted }
+ */
+export function tryCatch<T, const O extends TryCatchOptions>(
+    promise: PromiseLike<T>,
+    options: O,
+): Promise<Result<T, TryCatchError<O>>>;
+
 export function tryCatch<T, E = Error>(
-    input: Promise<T> | (() => T),
+    input: PromiseLike<T> | (() => T | PromiseLike<T>),
+    options?: TryCatchOptions,
 ): Result<T, E> | Promise<Result<T, E>> {
     try {
-        if (input instanceof Promise) {
-            return input
-                .then((result) => ({ result, error: null }))
-                .catch((error) => ({ result: null, error: error as E }));
+        if (isPromiseLike<T>(input)) {
+            return settle<T, E>(input, options);
         }
 
         const result = input();
+        if (isPromiseLike<T>(result)) {
+            return settle<T, E>(result, options);
+        }
         return { result, error: null };
     } catch (error) {
+        return handleError<E>(error, options);
+    }
+}
+
+/**
+ * Waits for a promise to settle and converts it into a Result.
+ *
+ * The wrapped promise can't be cancelled. On timeout or abort the Result is returned early and the outcome of the promise is ignored.
+ */
+function settle<T, E>(
+    promise: PromiseLike<T>,
+    options?: TryCatchOptions,
+): Promise<Result<T, E>> {
+    const { signal, timeoutMs } = options ?? {};
+
+    return new Promise((resolve, reject) => {
+        let timeout: ReturnType<typeof setTimeout> | undefined;
+
+        const cleanup = () => {
+            clearTimeout(timeout);
+            signal?.removeEventListener("abort", onAbort);
+        };
+
+        const onAbort = () => {
+            cleanup();
+            resolve({
+                result: null,
+                error: new AbortError(signal?.reason) as E,
+            });
+        };
+
+        if (signal?.aborted) {
+            onAbort();
+            return;
+        }
+        signal?.addEventListener("abort", onAbort, { once: true });
+
+        if (timeoutMs !== undefined) {
+            timeout = setTimeout(() => {
+                cleanup();
+                resolve({
+                    result: null,
+                    error: new TimeoutError(timeoutMs) as E,
+                });
+            }, timeoutMs);
+        }
+
+        Promise.resolve(promise).then(
+            (result) => {
+                cleanup();
+                resolve({ result, error: null });
+            },
+            (error) => {
+                cleanup();
+                try {
+                    resolve(handleError<E>(error, options));
+                } catch (unknownError) {
+                    reject(unknownError);
+                }
+            },
+        );
+    });
+}
+
+function handleError<E>(error: unknown, options?: TryCatchOptions): Failure<E> {
+    if (!options?.errors) {
+        return { result: null, error: normalizeError(error) as E };
+    }
+
+    if (matchesError(error, options.errors)) {
         return { result: null, error: error as E };
     }
+
+    if (options.onUnknown === "wrap") {
+        return { result: null, error: new UnknownError(error) as E };
+    }
+
+    throw error;
+}
+
+function matchesError(error: unknown, matcher: ErrorMatcher): boolean {
+    if (Array.isArray(matcher)) {
+        return matcher.some((errorClass) => error instanceof errorClass);
+    }
+    return (matcher as (error: unknown) => boolean)(error);
 }